@@ -0,0 +1,168 @@
+import { BatchListenerConfig, BeforeListenerConfig, ListenerConfig, ListenerEvent } from './types';
+import { withListenerLimit } from './concurrency';
+import { runWithRetry, sendToDeadLetter } from './retry';
+import { EmitterContext } from './context';
+
+// Events held by a batched, debounced or throttled listener
+interface Coalescer {
+  flush(): void;
+  hasPending(): boolean;
+}
+
+// Coalescing listeners of an emitter instance
+export interface BatchState {
+  coalescers: Set<Coalescer>; // Flushed by flushEvents() and on unsubscribe
+  deliveries: Set<Promise<void>>; // Deliveries of coalesced events that have not settled yet
+}
+
+/**
+ * Create the batch state of a new emitter instance
+ */
+export function createBatchState(): BatchState {
+  return { coalescers: new Set(), deliveries: new Set() };
+}
+
+/**
+ * Check if a listener config coalesces its events
+ */
+export function isBatchConfig<T>(
+  config: ListenerConfig<T> | BeforeListenerConfig<T> | BatchListenerConfig<T>
+): config is BatchListenerConfig<T> {
+  const cfg = config as BatchListenerConfig<T>;
+  return cfg.batch !== undefined || cfg.debounceMs !== undefined || cfg.throttleMs !== undefined;
+}
+
+/**
+ * Call a batch listener with its retry policy and timeout.
+ * On failure every event of the batch goes to the dead-letter handler.
+ */
+async function deliver<T>(ctx: EmitterContext, config: BatchListenerConfig<T>, events: ListenerEvent<T>[]): Promise<void> {
+  const { failed, attempts } = await withListenerLimit(config, config.concurrency, () =>
+    runWithRetry(ctx, config, (signal) => config.listener(events, { signal }))
+  );
+  if (!failed) return;
+
+  const error = attempts[attempts.length - 1].error;
+  ctx.logger.error(`Batched listener for ${events[0].model} failed (${events.length} event(s))`, error);
+  for (const event of events) {
+    await sendToDeadLetter(ctx, { event, error, attempts, listener: config }, config.onDeadLetter);
+  }
+}
+
+/**
+ * Wrap a batch listener config into a regular one that buffers matching events
+ * and hands them to the listener as arrays.
+ * Returns the config to register and a dispose function that delivers what is still pending.
+ */
+export function coalesceListener<T>(
+  ctx: EmitterContext,
+  config: BatchListenerConfig<T>
+): { config: ListenerConfig<T>; dispose: () => void } {
+  const { coalescers, deliveries } = ctx.batches;
+  const groups: Map<unknown, { events: ListenerEvent<T>[]; timer?: NodeJS.Timeout }> = new Map();
+  let throttleTimer: NodeJS.Timeout | undefined;
+
+  const send = (events: ListenerEvent<T>[]) => {
+    const delivery = deliver(ctx, config, events);
+    deliveries.add(delivery);
+    delivery.finally(() => deliveries.delete(delivery));
+  };
+
+  const sendGroup = (key: unknown) => {
+    const group = groups.get(key);
+    if (!group) return;
+    groups.delete(key);
+    clearTimeout(group.timer);
+    send(group.events);
+  };
+
+  const groupFor = (key: unknown) => {
+    let group = groups.get(key);
+    if (!group) {
+      group = { events: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  // Throttled events queue until the current interval ends, which starts the next one
+  const startThrottleInterval = () => {
+    throttleTimer = setTimeout(() => {
+      throttleTimer = undefined;
+      if (groups.has(undefined)) {
+        sendGroup(undefined);
+        startThrottleInterval();
+      }
+    }, config.throttleMs);
+  };
+
+  const receive = (event: ListenerEvent<T>) => {
+    if (config.batch) {
+      const { maxSize = 100, maxWaitMs = 1000 } = config.batch;
+      const group = groupFor(undefined);
+      group.events.push(event);
+      if (group.events.length >= maxSize) {
+        sendGroup(undefined);
+      } else if (!group.timer) {
+        group.timer = setTimeout(() => sendGroup(undefined), maxWaitMs);
+      }
+    } else if (config.debounceMs !== undefined) {
+      const key = config.debounceKey?.(event);
+      const group = groupFor(key);
+      group.events.push(event);
+      clearTimeout(group.timer);
+      group.timer = setTimeout(() => sendGroup(key), config.debounceMs);
+    } else if (throttleTimer) {
+      groupFor(undefined).events.push(event);
+    } else {
+      send([event]);
+      startThrottleInterval();
+    }
+  };
+
+  const coalescer: Coalescer = {
+    flush: () => Array.from(groups.keys()).forEach(sendGroup),
+    hasPending: () => groups.size > 0,
+  };
+  coalescers.add(coalescer);
+
+  // Retries, timeouts, concurrency and dead letters apply to the delivery of the coalesced events
+  const { operations, where, data, result, fields, transitions, allowRemote, remoteOnly, priority } = config;
+  return {
+    config: {
+      operations,
+      where,
+      data,
+      result,
+      fields,
+      transitions,
+      allowRemote,
+      remoteOnly,
+      priority,
+      listener: ({ signal: _signal, ...event }) => receive(event as ListenerEvent<T>),
+    },
+    dispose: () => {
+      coalescer.flush();
+      clearTimeout(throttleTimer);
+      coalescers.delete(coalescer);
+    },
+  };
+}
+
+/**
+ * Deliver the events pending in every coalescing listener and wait for all deliveries
+ */
+export async function flushPendingBatches(ctx: EmitterContext): Promise<void> {
+  const { coalescers, deliveries } = ctx.batches;
+  coalescers.forEach((coalescer) => coalescer.flush());
+  while (deliveries.size > 0) {
+    await Promise.allSettled(Array.from(deliveries));
+  }
+}
+
+/**
+ * Check if a coalescing listener still holds events
+ */
+export function hasPendingBatches(ctx: EmitterContext): boolean {
+  return Array.from(ctx.batches.coalescers).some((coalescer) => coalescer.hasPending());
+}
@@ -0,0 +1,72 @@
+import { ListenerConcurrency } from './types';
+
+/**
+ * Convert a concurrency setting to a maximum number of simultaneous tasks
+ */
+function toLimit(concurrency: ListenerConcurrency): number {
+  if (concurrency === 'sequential') return 1;
+  if (concurrency === 'parallel') return Infinity;
+  return Math.max(1, Math.floor(concurrency));
+}
+
+/**
+ * Run tasks in order with at most `concurrency` of them at once.
+ * Tasks must not reject.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: ListenerConcurrency,
+  run: (item: T) => Promise<void>
+): Promise<void> {
+  const limit = Math.min(toLimit(concurrency), items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await run(items[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: limit }, worker));
+}
+
+// Simultaneous invocations of a single listener
+interface ListenerLimiter {
+  active: number;
+  queue: Array<() => void>;
+}
+
+const limiters: WeakMap<object, ListenerLimiter> = new WeakMap();
+
+/**
+ * Run a task for a listener, queueing it while the listener already has
+ * `concurrency` invocations in progress
+ */
+export async function withListenerLimit<T>(
+  key: object,
+  concurrency: ListenerConcurrency | undefined,
+  task: () => Promise<T>
+): Promise<T> {
+  if (concurrency === undefined || concurrency === 'parallel') return task();
+
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = { active: 0, queue: [] };
+    limiters.set(key, limiter);
+  }
+
+  // A woken waiter inherits the slot of the task that finished, so `active` is not decremented for it
+  if (limiter.active >= toLimit(concurrency)) {
+    await new Promise<void>((resolve) => limiter!.queue.push(resolve));
+  } else {
+    limiter.active++;
+  }
+
+  try {
+    return await task();
+  } finally {
+    const next = limiter.queue.shift();
+    if (next) next();
+    else limiter.active--;
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  EventFilter,
+  EventStreamOptions,
+  ListenerConfig,
+  ListenerEvent,
+  ListenerRecord,
+  ModelNames,
+  WaitForEventOptions
+} from './types';
+import { registerListener } from './event-listener';
+import { EventTimeoutError } from './errors';
+import { EmitterContext } from './context';
+
+/**
+ * Drop the abort signal of an attempt from a listener payload
+ */
+function toEvent<T, M extends ModelNames>(payload: ListenerEvent<T, M> & { signal: AbortSignal }): ListenerEvent<T, M> {
+  const { signal: _signal, ...event } = payload;
+  return event as ListenerEvent<T, M>;
+}
+
+/**
+ * Resolve with the next event matching the filter.
+ * Rejects with EventTimeoutError after `timeout` ms, or with the abort reason of `signal`.
+ */
+export function waitForEvent<T = unknown, M extends ModelNames = ModelNames>(
+  ctx: EmitterContext,
+  model: M | M[] | '*',
+  filter: EventFilter<ListenerRecord<T, M>, M> = {},
+  options: WaitForEventOptions = {}
+): Promise<ListenerEvent<ListenerRecord<T, M>, M>> {
+  type Event = ListenerEvent<ListenerRecord<T, M>, M>;
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(options.signal.reason);
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      unsubscribe();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(options.signal!.reason);
+    };
+
+    const unsubscribe = registerListener(ctx, model, {
+      ...filter,
+      once: true,
+      listener: (payload: Event & { signal: AbortSignal }) => {
+        cleanup();
+        resolve(toEvent(payload));
+      },
+    } as ListenerConfig<any>);
+
+    if (options.timeout !== undefined) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new EventTimeoutError(options.timeout!));
+      }, options.timeout);
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Iterate over the events matching the filter as they are emitted.
+ * Events are buffered while the consumer is busy, dropping the oldest beyond `bufferSize`.
+ * Breaking out of the loop, or aborting `signal`, unsubscribes the listener.
+ */
+export function events<T = unknown, M extends ModelNames = ModelNames>(
+  ctx: EmitterContext,
+  model: M | M[] | '*',
+  filter: EventFilter<ListenerRecord<T, M>, M> = {},
+  options: EventStreamOptions = {}
+): AsyncIterableIterator<ListenerEvent<ListenerRecord<T, M>, M>> {
+  type Event = ListenerEvent<ListenerRecord<T, M>, M>;
+  const bufferSize = Math.max(1, options.bufferSize ?? 100);
+  const buffer: Event[] = [];
+  let waiting: ((result: IteratorResult<Event>) => void) | undefined;
+  let done = false;
+
+  const unsubscribe = registerListener(ctx, model, {
+    ...filter,
+    listener: (payload: Event & { signal: AbortSignal }) => {
+      if (done) return;
+      const event = toEvent(payload);
+      if (waiting) {
+        const resolve = waiting;
+        waiting = undefined;
+        resolve({ value: event, done: false });
+        return;
+      }
+      if (buffer.length >= bufferSize) {
+        buffer.shift();
+        ctx.logger.warn(`Event stream buffer full (${bufferSize}), dropping the oldest event`);
+      }
+      buffer.push(event);
+    },
+  } as ListenerConfig<any>);
+
+  const close = (): IteratorResult<Event> => {
+    if (!done) {
+      done = true;
+      unsubscribe();
+      options.signal?.removeEventListener('abort', onAbort);
+      buffer.length = 0;
+      waiting?.({ value: undefined, done: true });
+      waiting = undefined;
+    }
+    return { value: undefined, done: true };
+  };
+  const onAbort = () => close();
+
+  if (options.signal?.aborted) {
+    close();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    next() {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => {
+        waiting = resolve;
+      });
+    },
+    return() {
+      return Promise.resolve(close());
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
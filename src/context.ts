@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto';
+import {
+  ListenerConfig,
+  BeforeListenerConfig,
+  ListenerTarget,
+  ListenerConcurrency,
+  DeadLetterHandler
+} from './types';
+import { Logger, logger } from './logger';
+import { RemoteState, createRemoteState } from './remote';
+import { BatchState, createBatchState } from './coalesce';
+
+// State of one emitter instance: listener registries, settings, transport and pending work
+export interface EmitterContext {
+  // Listeners map: model name (or '*' for every model) to array of configs
+  listeners: Record<ListenerTarget, ListenerConfig<any>[]>;
+  // Before listeners map: model name (or '*' for every model) to array of configs
+  beforeListeners: Record<ListenerTarget, BeforeListenerConfig<any>[]>;
+  logger: Logger;
+  instanceId: string; // ID of this process in event payloads
+  concurrency: ListenerConcurrency; // How the listeners matched by one event run
+  deadLetterHandler?: DeadLetterHandler; // For listeners without a handler of their own
+  inFlight: Set<Promise<unknown>>; // Listener runs and publishes that have not settled yet
+  batches: BatchState;
+  remote: RemoteState;
+}
+
+/**
+ * Create the state of a new emitter instance
+ */
+export function createContext(contextLogger: Logger = new Logger()): EmitterContext {
+  return {
+    listeners: {} as any,
+    beforeListeners: {} as any,
+    logger: contextLogger,
+    instanceId: randomUUID(),
+    concurrency: 'sequential',
+    inFlight: new Set(),
+    batches: createBatchState(),
+    remote: createRemoteState(),
+  };
+}
+
+/**
+ * Track a promise until it settles so flushEvents() can wait for it
+ */
+export function trackInFlight<T>(ctx: EmitterContext, promise: Promise<T>): Promise<T> {
+  const { inFlight } = ctx;
+  inFlight.add(promise);
+  promise.then(
+    () => inFlight.delete(promise),
+    () => inFlight.delete(promise)
+  );
+  return promise;
+}
+
+// State of the default instance behind the top-level exports
+export const defaultContext: EmitterContext = createContext(logger);
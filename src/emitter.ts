@@ -0,0 +1,120 @@
+import {
+  ExtensionOptions,
+  EventFilter,
+  EventStreamOptions,
+  ListenerEvent,
+  ListenerRecord,
+  ModelNames,
+  WaitForEventOptions
+} from './types';
+import { EmitterContext, createContext, defaultContext } from './context';
+import { createExtension } from './extension';
+import { PrismaEventListener, createEventListener } from './event-listener';
+import { waitForEvent as waitForContextEvent, events as contextEvents } from './consumers';
+import { flushEvents as flushContext } from './runner';
+import { closeTransport, getQueueDepth } from './remote';
+import { Logger } from './logger';
+
+// Functions bound to one emitter instance
+interface EmitterFunctions {
+  on: PrismaEventListener;
+  waitForEvent<T = unknown, M extends ModelNames = ModelNames>(
+    model: M | M[] | '*',
+    filter?: EventFilter<ListenerRecord<T, M>, M>,
+    options?: WaitForEventOptions
+  ): Promise<ListenerEvent<ListenerRecord<T, M>, M>>;
+  events<T = unknown, M extends ModelNames = ModelNames>(
+    model: M | M[] | '*',
+    filter?: EventFilter<ListenerRecord<T, M>, M>,
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<ListenerEvent<ListenerRecord<T, M>, M>>;
+  flush(): Promise<void>; // Resolve once pending listeners and publishes have settled
+  disconnect(): Promise<void>; // Close the transport
+  queueDepth(): number; // Events waiting in the publish buffer for the transport to connect
+  listeners: EmitterContext['listeners'];
+  beforeListeners: EmitterContext['beforeListeners'];
+  logger: Logger;
+}
+
+// An isolated emitter with its own listeners, transport and settings
+export interface Emitter extends EmitterFunctions {
+  extension: ReturnType<typeof createExtension>; // Pass to `$extends`
+}
+
+/**
+ * Bind the public functions to an emitter instance
+ */
+function bindEmitter(ctx: EmitterContext): EmitterFunctions {
+  return {
+    on: createEventListener(ctx),
+    waitForEvent: (model, filter, options) => waitForContextEvent(ctx, model, filter, options),
+    events: (model, filter, options) => contextEvents(ctx, model, filter, options),
+    flush: () => flushContext(ctx),
+    disconnect: () => closeTransport(ctx),
+    queueDepth: () => getQueueDepth(ctx),
+    listeners: ctx.listeners,
+    beforeListeners: ctx.beforeListeners,
+    logger: ctx.logger,
+  };
+}
+
+/**
+ * Create an emitter isolated from the default one and from other instances,
+ * e.g. one per Prisma client or per test suite
+ */
+export function createEmitter(options?: ExtensionOptions): Emitter {
+  const ctx = createContext();
+  return { extension: createExtension(ctx, options), ...bindEmitter(ctx) };
+}
+
+// Default instance behind the top-level exports
+const defaultEmitter = bindEmitter(defaultContext);
+
+/**
+ * Create Prisma extension configuration for the default emitter.
+ * Calling it again reconfigures the default emitter.
+ */
+export function listenerExtensionConfig(options?: ExtensionOptions) {
+  return createExtension(defaultContext, options);
+}
+
+// Declared with explicit types so the published declarations keep referring to `ModelNames`,
+// which the generated client augments, instead of the model names known when the library was built
+export const prismaEventListener: PrismaEventListener = defaultEmitter.on;
+
+/**
+ * Resolve with the first matching event of the default emitter
+ */
+export function waitForEvent<T = unknown, M extends ModelNames = ModelNames>(
+  model: M | M[] | '*',
+  filter?: EventFilter<ListenerRecord<T, M>, M>,
+  options?: WaitForEventOptions
+): Promise<ListenerEvent<ListenerRecord<T, M>, M>> {
+  return defaultEmitter.waitForEvent(model, filter, options);
+}
+
+/**
+ * Iterate over the matching events of the default emitter
+ */
+export function events<T = unknown, M extends ModelNames = ModelNames>(
+  model: M | M[] | '*',
+  filter?: EventFilter<ListenerRecord<T, M>, M>,
+  options?: EventStreamOptions
+): AsyncIterableIterator<ListenerEvent<ListenerRecord<T, M>, M>> {
+  return defaultEmitter.events(model, filter, options);
+}
+
+export function flushEvents(): Promise<void> {
+  return defaultEmitter.flush();
+}
+
+export function disconnectMqtt(): Promise<void> {
+  return defaultEmitter.disconnect();
+}
+
+export function publishQueueDepth(): number {
+  return defaultEmitter.queueDepth();
+}
+
+export const listeners: EmitterContext['listeners'] = defaultEmitter.listeners;
+export const beforeListeners: EmitterContext['beforeListeners'] = defaultEmitter.beforeListeners;
@@ -0,0 +1,55 @@
+import type { DeadLetter } from './types';
+
+/**
+ * Thrown by a before listener to abort a write.
+ * The extension fills in the model and operation before rethrowing it to the caller.
+ */
+export class EmitterVetoError extends Error {
+  model?: string;
+  operation?: string;
+
+  constructor(message: string = 'Operation vetoed by before listener', readonly reason?: any) {
+    super(message);
+    this.name = 'EmitterVetoError';
+    Object.setPrototypeOf(this, EmitterVetoError.prototype);
+  }
+}
+
+/**
+ * Raised for a listener attempt that exceeded its `timeoutMs`.
+ * It is the abort reason of the attempt's signal.
+ */
+export class ListenerTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Listener timed out after ${timeoutMs}ms`);
+    this.name = 'ListenerTimeoutError';
+    Object.setPrototypeOf(this, ListenerTimeoutError.prototype);
+  }
+}
+
+/**
+ * Rejects a write delivered with `delivery: 'await'` or `'awaitLocal'` when `throwListenerErrors`
+ * is set and listeners failed. The write itself has succeeded.
+ */
+export class ListenerError extends Error {
+  constructor(readonly failures: DeadLetter[]) {
+    super(`${failures.length} listener(s) failed: ${failures.map((f) => errorMessage(f.error)).join('; ')}`);
+    this.name = 'ListenerError';
+    Object.setPrototypeOf(this, ListenerError.prototype);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Rejects `waitForEvent` when no matching event arrives within its timeout
+ */
+export class EventTimeoutError extends Error {
+  constructor(readonly timeout: number) {
+    super(`No matching event within ${timeout}ms`);
+    this.name = 'EventTimeoutError';
+    Object.setPrototypeOf(this, EventTimeoutError.prototype);
+  }
+}
@@ -1,34 +1,154 @@
-import { ListenerConfig, ModelNames } from './types';
-import { listeners } from './listeners';
-import { subscribeToMqttTopic, unsubscribeFromMqttTopic } from './mqtt';
+import {
+  ListenerConfig,
+  BeforeListenerConfig,
+  BatchListenerConfig,
+  ModelNames,
+  ListenerTarget,
+  ListenerRecord
+} from './types';
+import { subscribeRemote, unsubscribeRemote } from './remote';
+import { coalesceListener, isBatchConfig } from './coalesce';
+import { EmitterContext } from './context';
+import { camelizeIt } from './utils';
 
 /**
- * Register a listener for a model.
+ * Register a listener for a model, several models, or every model ('*').
+ * Model names are camelCased, as Prisma client properties are.
+ * Listeners with `phase: 'before'` run before the query and can veto it.
+ * Listeners with `batch`, `debounceMs` or `throttleMs` receive arrays of events.
+ * The payload is typed from the model name unless a record type is passed explicitly.
  * Returns an unsubscribe function.
  */
-export function prismaEventListener<T>(
-  model: ModelNames,
+export interface PrismaEventListener {
+  <T = unknown>(model: '*', config: BatchListenerConfig<ListenerRecord<T, ModelNames>>): () => void;
+  <T = unknown, M extends ModelNames = ModelNames>(
+    model: M | M[],
+    config: BatchListenerConfig<ListenerRecord<T, M>, M>
+  ): () => void;
+  <T = unknown>(model: '*', config: ListenerConfig<ListenerRecord<T, ModelNames>>): () => void;
+  <T = unknown>(model: '*', config: BeforeListenerConfig<ListenerRecord<T, ModelNames>>): () => void;
+  <T = unknown, M extends ModelNames = ModelNames>(
+    model: M | M[],
+    config: ListenerConfig<ListenerRecord<T, M>, M>
+  ): () => void;
+  <T = unknown, M extends ModelNames = ModelNames>(
+    model: M | M[],
+    config: BeforeListenerConfig<ListenerRecord<T, M>, M>
+  ): () => void;
+}
+
+/**
+ * Create the `prismaEventListener` function of an emitter instance
+ */
+export function createEventListener(ctx: EmitterContext): PrismaEventListener {
+  return ((model: ListenerTarget | ListenerTarget[], config: any) => registerListener(ctx, model, config)) as PrismaEventListener;
+}
+
+/**
+ * Register a listener config on an emitter instance for one or more targets.
+ * Returns an unsubscribe function.
+ */
+export function registerListener<T>(
+  ctx: EmitterContext,
+  model: ListenerTarget | ListenerTarget[],
+  config: ListenerConfig<T> | BeforeListenerConfig<T> | BatchListenerConfig<T>
+): () => void {
+  // Events carry camelCase model names, so 'OrderItem' and 'orderItem' register the same target
+  const targets = Array.from(new Set((Array.isArray(model) ? model : [model]).map(
+    (target) => (target === '*' ? target : camelizeIt(target) as ModelNames)
+  )));
+  
+  if (isBatchConfig(config)) {
+    const coalesced = coalesceListener(ctx, config);
+    const unsubscribers = targets.map((target) => addListener(ctx, target, coalesced.config));
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      coalesced.dispose();
+    };
+  }
+  
+  const registered = config.phase !== 'before' && config.once ? onceConfig(config, () => unsubscribe()) : config;
+  
+  const unsubscribers = targets.map((target) => registered.phase === 'before'
+    ? addBeforeListener(ctx, target, registered)
+    : addListener(ctx, target, registered)
+  );
+  
+  // Return unsubscribe function
+  const unsubscribe = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+  return unsubscribe;
+}
+
+/**
+ * Wrap a `once` listener so it unsubscribes on its first matching event.
+ * Retries of that event still reach it; other events dispatched concurrently are ignored.
+ */
+function onceConfig<T>(config: ListenerConfig<T>, unsubscribe: () => void): ListenerConfig<T> {
+  let firstEventId: string | undefined;
+  
+  return {
+    ...config,
+    listener: (payload) => {
+      if (firstEventId !== undefined && firstEventId !== payload.eventId) return;
+      if (firstEventId === undefined) {
+        firstEventId = payload.eventId;
+        unsubscribe();
+      }
+      return config.listener(payload);
+    },
+  };
+}
+
+/**
+ * Register an after listener for a single target
+ */
+function addListener<T>(
+  ctx: EmitterContext,
+  model: ListenerTarget,
   config: ListenerConfig<T>
 ): () => void {
+  const { listeners } = ctx;
+  
   // Register local listener
   if (!listeners[model]) {
     listeners[model] = [];
   }
   listeners[model].push(config as any);
   
-  // Subscribe to MQTT if allowRemote is true
+  // Subscribe to remote events if allowRemote is true
   if (config.allowRemote) {
-    subscribeToMqttTopic(model, config as any);
+    subscribeRemote(ctx, model, config as any);
   }
   
-  // Return unsubscribe function
   return () => {
     // Remove local listener
     listeners[model] = listeners[model].filter(l => l !== (config as any));
     
-    // Unsubscribe from MQTT if was subscribed
+    // Unsubscribe from remote events if was subscribed
     if (config.allowRemote) {
-      unsubscribeFromMqttTopic(model, config as any);
+      unsubscribeRemote(ctx, model, config as any);
     }
   };
 }
+
+/**
+ * Register a before listener (local only, never subscribed to remote events)
+ */
+function addBeforeListener<T>(
+  ctx: EmitterContext,
+  model: ListenerTarget,
+  config: BeforeListenerConfig<T>
+): () => void {
+  const { beforeListeners } = ctx;
+  
+  if (!beforeListeners[model]) {
+    beforeListeners[model] = [];
+  }
+  beforeListeners[model].push(config as any);
+  
+  return () => {
+    beforeListeners[model] = beforeListeners[model].filter(l => l !== (config as any));
+  };
+}
@@ -1,124 +1,404 @@
-import { ExtensionOptions, EmitConfig } from './types';
-import { initializeMqtt } from './mqtt';
+import { randomUUID } from 'crypto';
+import {
+  ExtensionOptions,
+  EmitConfig,
+  EmitArg,
+  BulkEmitMode,
+  DeliveryMode,
+  ModelNames,
+  ModelEmitConfig,
+  RecordSnapshot,
+  FieldChanges,
+  EventDetails,
+  EmitOperation,
+  EventTransport,
+  DeadLetter
+} from './types';
+import { ListenerError } from './errors';
+import { MqttTransport } from './mqtt';
+import { RedisTransport } from './redis';
+import { PostgresTransport } from './postgres';
+import { attachTransport, setPublishBuffer } from './remote';
 import { runListeners } from './runner';
-import { logger } from './logger';
+import { executeBeforeListeners } from './listeners';
+import { Logger } from './logger';
+import { camelizeIt, isSameValue } from './utils';
+import { deferUntilCommit, withTransactionScope, bindTransactionClient, getTransactionClient } from './transactions';
+import { collectNestedEvents, resolveRelations, RelationMap } from './nested';
+import { getEmitterContext } from './request-context';
+import { EmitterContext, trackInFlight } from './context';
 
 /**
  * Parse emit configuration from args
  */
-function parseEmitConfig(emit: EmitConfig | undefined): { shouldEmit: boolean; local: boolean; remote: boolean } {
+function parseEmitConfig(
+  emit: EmitArg | undefined,
+  defaultDelivery: DeliveryMode
+): {
+  shouldEmit: boolean;
+  local: boolean;
+  remote: boolean;
+  delivery: DeliveryMode;
+  topic?: string;
+  details: EventDetails; // Details shared by every event of the write
+} {
   if (!emit) {
-    return { shouldEmit: false, local: false, remote: false };
+    return { shouldEmit: false, local: false, remote: false, delivery: defaultDelivery, details: {} };
   }
   
   if (typeof emit === 'boolean') {
-    return { shouldEmit: emit, local: emit, remote: emit };
+    return { shouldEmit: emit, local: emit, remote: emit, delivery: defaultDelivery, details: {} };
   }
   
+  // An object setting neither `local` nor `remote` (e.g. only `meta`) emits to both
+  const both = emit.local === undefined && emit.remote === undefined;
+  const local = emit.local ?? both;
+  const remote = emit.remote ?? both;
   return { 
-    shouldEmit: emit.local || emit.remote, 
-    local: emit.local ?? false, 
-    remote: emit.remote ?? false 
+    shouldEmit: local || remote, 
+    local, 
+    remote,
+    delivery: emit.delivery ?? defaultDelivery,
+    topic: emit.topic,
+    details: { meta: emit.meta, tags: emit.tags }
   };
 }
 
 /**
- * Create Prisma extension configuration
+ * Resolve the emit config of one model for an operation
  */
-export function listenerExtensionConfig(options?: ExtensionOptions) {
-  // Set log level (default: 'none')
-  logger.setLevel(options?.logLevel ?? 'none');
+function resolveModelEmitConfig(config: ModelEmitConfig | undefined, operation: string): EmitConfig {
+  if (config === undefined || typeof config === 'boolean') return config ?? false;
+  if ('local' in config || 'remote' in config) return config as EmitConfig;
+  return (config as Record<string, EmitConfig | undefined>)[operation] ?? false;
+}
+
+/**
+ * Build the resolver for the default emit config of a write without a per-call `emit` arg.
+ * Accepts a global boolean, the `emitOn*` flags, or defaults keyed by model.
+ */
+function createEmitDefaults(emit: ExtensionOptions['emit']): (model: string, operation: string) => EmitConfig {
+  if (emit === undefined || typeof emit === 'boolean') {
+    const enabled = emit ?? false;
+    return () => enabled;
+  }
   
-  // Initialize MQTT if configured
-  if (options?.mqtt) {
-    initializeMqtt(options.mqtt);
+  if (Object.keys(emit).some((key) => key.startsWith('emitOn'))) {
+    const flags = emit as Record<string, boolean | undefined>;
+    return (_model, operation) => flags[`emitOn${operation.charAt(0).toUpperCase()}${operation.slice(1)}`] ?? false;
   }
   
-  // Determine emit configuration
-  const emitConfig = typeof options?.emit === 'boolean' 
-    ? {
-        emitOnCreate: options.emit,
-        emitOnUpdate: options.emit,
-        emitOnUpdateMany: options.emit,
-        emitOnUpsert: options.emit
-      }
-    : {
-        emitOnCreate: options?.emit?.emitOnCreate ?? false,
-        emitOnUpdate: options?.emit?.emitOnUpdate ?? false,
-        emitOnUpdateMany: options?.emit?.emitOnUpdateMany ?? false,
-        emitOnUpsert: options?.emit?.emitOnUpsert ?? false
-      };
-
-  const extensionConfig: any = {
-    name: 'listenerExtension',
-    query: {
-      $allModels: {} as any,
-    },
+  const models = emit as Record<string, ModelEmitConfig | undefined>;
+  return (model, operation) => {
+    const modelKey = camelizeIt(model);
+    const config = modelKey in models ? models[modelKey] : models.$default;
+    return resolveModelEmitConfig(config, operation);
   };
+}
 
-  // Add update method
-  (extensionConfig.query!.$allModels as any).update = async function({ 
-    args, 
-    query, 
-    model 
-  }: any) {
-    if (!('emit' in args) && !emitConfig.emitOnUpdate) return query(args);
-    const emitOpts = parseEmitConfig((args as any).emit);
-    delete (args as any).emit;
-    const result = await query(args);
-    if (emitOpts.shouldEmit) {
-      runListeners(model, args, result, 'update', { local: emitOpts.local, remote: emitOpts.remote });
+// Bulk operations that can be fanned out, mapped to the operation each row is emitted as
+const perRowOperations: Record<string, string> = {
+  createManyAndReturn: 'create',
+  updateManyAndReturn: 'update',
+};
+
+// Single-record operations whose pre-image can be read with findUnique
+const snapshotOperations = new Set(['update', 'upsert', 'delete']);
+
+// Operations whose args can contain nested writes on related models
+const nestedWriteOperations = new Set(['create', 'update', 'upsert']);
+
+interface EmittedEvent {
+  model: string;
+  operation: string;
+  args: any;
+  result: any;
+  details: EventDetails;
+}
+
+// Settings shared by every operation handler of one extension instance
+interface HandlerContext {
+  emitter: EmitterContext;
+  client: any;
+  bulkEmit: BulkEmitMode;
+  captureBefore: (model: string) => boolean;
+  shouldEmit: NonNullable<ExtensionOptions['shouldEmit']>;
+  relations: RelationMap | null; // Relations of the data model when `emitNested` is on
+  emitDefault: (model: string, operation: string) => EmitConfig;
+  delivery: DeliveryMode;
+  throwListenerErrors: boolean;
+}
+
+/**
+ * Read the record targeted by a single-record write before it runs
+ */
+async function readBefore(client: any, model: string, args: any, logger: Logger): Promise<any> {
+  try {
+    return await client[camelizeIt(model)].findUnique({ where: args.where });
+  } catch (err) {
+    logger.warn(`Failed to capture before image for ${model}`, err);
+    return null;
+  }
+}
+
+/**
+ * Compute the changed fields between two images of a record.
+ * Only fields present in `after` are compared (all of `before` for deletes),
+ * so a `select` on the write does not report unselected fields as changed.
+ */
+function diffRecords(before: any, after: any): FieldChanges {
+  const changes: FieldChanges = {};
+  const fields = Object.keys(after ?? before ?? {});
+  for (const field of fields) {
+    const from = before?.[field];
+    const to = after?.[field];
+    if (!isSameValue(from, to)) {
+      changes[field] = { from, to };
     }
-    return result;
-  };
+  }
+  return changes;
+}
+
+/**
+ * Split the result of a bulk operation into one event per returned row.
+ * Everything else (and every operation in 'batch' mode) is a single event.
+ */
+function expandEvents(
+  model: string,
+  operation: string,
+  args: any,
+  result: any,
+  bulkEmit: BulkEmitMode,
+  snapshot?: RecordSnapshot,
+  shared: EventDetails = {}
+): EmittedEvent[] {
+  const rowOperation = perRowOperations[operation];
+  if (bulkEmit !== 'perRow' || !rowOperation || !Array.isArray(result)) {
+    return [{ model, operation, args, result, details: { eventId: randomUUID(), timestamp: new Date().toISOString(), ...snapshot, ...shared } }];
+  }
+  
+  // createManyAndReturn returns rows in input order, so each row gets its own `data`
+  const inputRows = Array.isArray(args.data) ? args.data : null;
+  const timestamp = new Date().toISOString();
+  return result.map((row, index) => ({
+    model,
+    operation: rowOperation,
+    args: { ...args, data: inputRows ? inputRows[index] : args.data },
+    result: row,
+    details: { eventId: randomUUID(), timestamp, ...shared },
+  }));
+}
+
+/**
+ * Derive events for the nested writes of an event.
+ * Their result is null since Prisma does not return the related records by default.
+ */
+function expandNestedEvents(relations: RelationMap, event: EmittedEvent): EmittedEvent[] {
+  if (!nestedWriteOperations.has(event.operation)) return [];
+  
+  const { context, meta, tags } = event.details;
+  return collectNestedEvents(relations, event.model, event.operation, event.args, event.details.eventId!, randomUUID)
+    .map(({ model, operation, args, eventId, parentEventId }) => ({
+      model,
+      operation,
+      args,
+      result: null,
+      details: { eventId, parentEventId, timestamp: event.details.timestamp, context, meta, tags },
+    }));
+}
+
+/**
+ * Run listeners for each event in order, resolving with the local listeners that failed
+ */
+async function dispatchEvents(
+  ctx: EmitterContext,
+  events: EmittedEvent[],
+  options: { local: boolean; remote: boolean; delivery: DeliveryMode; topic?: string }
+): Promise<DeadLetter[]> {
+  const failures: DeadLetter[] = [];
+  for (const event of events) {
+    failures.push(...await runListeners(ctx, event.model as ModelNames, event.args, event.result, event.operation, options, event.details));
+  }
+  return failures;
+}
 
-  // Add updateMany method
-  (extensionConfig.query!.$allModels as any).updateMany = async function({ 
+/**
+ * Create a query handler for a single Prisma operation.
+ * The `emit` arg is stripped before the query runs and listeners are
+ * triggered with the query result once it resolves, or once the
+ * surrounding transaction commits.
+ */
+function createOperationHandler(operation: string, context: HandlerContext) {
+  return async function({ 
     args, 
     query, 
-    model 
+    model,
+    __internalParams
   }: any) {
-    if (!('emit' in args) && !emitConfig.emitOnUpdateMany) return query(args);
-    const emitOpts = parseEmitConfig((args as any).emit);
+    // Per-call `emit` overrides the configured default for this model and operation
+    const emitOpts = parseEmitConfig(
+      'emit' in args ? (args as any).emit : context.emitDefault(model, operation),
+      context.delivery
+    );
     delete (args as any).emit;
-    const result = await query(args);
-    if (emitOpts.shouldEmit) {
-      runListeners(model, args, result, 'updateMany', { local: emitOpts.local, remote: emitOpts.remote });
+    
+    // Before listeners run on every write and may mutate args or veto it by throwing
+    const { emitter } = context;
+    await executeBeforeListeners(emitter, camelizeIt(model) as ModelNames, args, operation as EmitOperation);
+    if (!emitOpts.shouldEmit) return query(args);
+    if (!(await context.shouldEmit(camelizeIt(model) as ModelNames, operation as EmitOperation, args))) {
+      return query(args);
     }
-    return result;
-  };
 
-  // Add create method
-  (extensionConfig.query!.$allModels as any).create = async function({ 
-    args, 
-    query, 
-    model 
-  }: any) {
-    if (!('emit' in args) && !emitConfig.emitOnCreate) return query(args);
-    const emitOpts = parseEmitConfig((args as any).emit);
-    delete (args as any).emit;
-    const result = await query(args);
-    if (emitOpts.shouldEmit) {
-      runListeners(model, args, result, 'create', { local: emitOpts.local, remote: emitOpts.remote });
+    // Captured now, as deliveries after commit or in the background may run outside the caller's scope
+    const eventContext = getEmitterContext();
+    let capture = snapshotOperations.has(operation) && context.captureBefore(model);
+    // Inside a transaction the before image must come from it, to see its earlier writes
+    const transaction = __internalParams?.transaction;
+    const readClient = transaction ? getTransactionClient(transaction) : context.client;
+    if (capture && !readClient) {
+      emitter.logger.debug(`Before image of ${model} not captured: the transaction client is not reachable`);
+      capture = false;
     }
-    return result;
-  };
+    const before = capture ? await readBefore(readClient, model, args, emitter.logger) : undefined;
 
-  // Add upsert method
-  (extensionConfig.query!.$allModels as any).upsert = async function({ 
-    args, 
-    query, 
-    model 
-  }: any) {
-    if (!('emit' in args) && !emitConfig.emitOnUpsert) return query(args);
-    const emitOpts = parseEmitConfig((args as any).emit);
-    delete (args as any).emit;
     const result = await query(args);
-    if (emitOpts.shouldEmit) {
-      runListeners(model, args, result, 'upsert', { local: emitOpts.local, remote: emitOpts.remote });
+    let snapshot: RecordSnapshot | undefined;
+    if (capture) {
+      const after = operation === 'delete' ? null : result;
+      snapshot = { before, after, changes: diffRecords(before, after) };
+    }
+    let events = expandEvents(model, operation, args, result, context.bulkEmit, snapshot, {
+      ...emitOpts.details,
+      context: eventContext,
+    });
+    const { relations } = context;
+    if (relations) {
+      events = events.flatMap((event) => [event, ...expandNestedEvents(relations, event)]);
+    }
+    const { local, remote, delivery, topic } = emitOpts;
+    const waitForDelivery = delivery !== 'background';
+    const dispatch = async () => {
+      const failures = await trackInFlight(emitter, dispatchEvents(emitter, events, { local, remote, delivery, topic }));
+      if (waitForDelivery && context.throwListenerErrors && failures.length > 0) {
+        throw new ListenerError(failures);
+      }
+    };
+    
+    // Events inside a transaction are delivered by the $transaction wrapper after commit
+    if (!deferUntilCommit(emitter, transaction, dispatch, waitForDelivery)) {
+      const delivered = dispatch();
+      if (waitForDelivery) await delivered;
     }
     return result;
   };
+}
 
-  return extensionConfig;
+/**
+ * Create the transport of the first enabled `mqtt`, `redis` or `postgres` config (null when none is)
+ */
+function createConfiguredTransport(
+  options: ExtensionOptions,
+  topicPrefix: string | undefined,
+  logger: Logger
+): EventTransport | null {
+  const { mqtt, redis, postgres } = options;
+  try {
+    if (mqtt?.enabled) return new MqttTransport(mqtt);
+    if (redis?.enabled) return new RedisTransport({ ...redis, topicPrefix });
+    if (postgres?.enabled) return new PostgresTransport(postgres);
+  } catch (error) {
+    logger.error('Failed to initialize transport:', error);
+  }
+  return null;
+}
+
+/**
+ * Apply the extension options to an emitter instance and create its Prisma extension
+ */
+export function createExtension(ctx: EmitterContext, options?: ExtensionOptions) {
+  // Set log level (default: 'none')
+  ctx.logger.setLevel(options?.logLevel ?? 'none');
+  
+  if (options?.instanceId) {
+    ctx.instanceId = options.instanceId;
+  }
+  
+  // How the listeners matched by one event run (default: 'sequential')
+  ctx.concurrency = options?.concurrency ?? 'sequential';
+  ctx.deadLetterHandler = options?.onDeadLetter;
+  
+  // Hold events published while the transport is disconnected (before it is attached, which drains it)
+  setPublishBuffer(ctx, options?.publishBuffer);
+
+  // Remote events go through the given transport, or the first enabled MQTT, Redis or Postgres config
+  const { mqtt, redis, postgres } = options ?? {};
+  const topicPrefix = options?.topicPrefix ?? [mqtt, redis, postgres].find((config) => config?.enabled)?.topicPrefix;
+  if (options?.transport) {
+    attachTransport(ctx, options.transport, topicPrefix);
+  } else if (options && (mqtt || redis || postgres)) {
+    attachTransport(ctx, createConfiguredTransport(options, topicPrefix, ctx.logger), topicPrefix);
+  }
+  
+  // Determine emit configuration
+  const emitDefault = createEmitDefaults(options?.emit);
+  const bulkEmit = options?.bulkEmit ?? 'batch';
+
+  // Resolve captureBefore globally or per model
+  const captureBeforeOption = options?.captureBefore ?? false;
+  const captureBefore = (model: string): boolean => {
+    if (typeof captureBeforeOption === 'boolean') return captureBeforeOption;
+    return (captureBeforeOption as Record<string, boolean | undefined>)[camelizeIt(model)] ?? false;
+  };
+
+  // Returned as a function so the handlers can use the client to read before images
+  // and wrap `$transaction`
+  return (client: any) => {
+    const context: HandlerContext = {
+      emitter: ctx,
+      client,
+      bulkEmit,
+      captureBefore,
+      shouldEmit: options?.shouldEmit ?? (() => true),
+      relations: options?.emitNested ? resolveRelations(options.datamodel, client, ctx.logger) : null,
+      emitDefault,
+      delivery: options?.delivery ?? 'background',
+      throwListenerErrors: options?.throwListenerErrors ?? false,
+    };
+    const originalTransaction = client.$transaction;
+
+    const extensionConfig: any = {
+      name: 'listenerExtension',
+      query: {
+        $allModels: {} as any,
+      },
+      client: {
+        // Events emitted inside interactive or batch transactions are held until commit
+        // Interactive callbacks also expose their client, used to read before images
+        $transaction(this: any, ...args: any[]) {
+          if (typeof args[0] === 'function') args[0] = bindTransactionClient(args[0]);
+          return withTransactionScope(ctx, () => originalTransaction.apply(this, args));
+        },
+      },
+    };
+
+    const allModels = extensionConfig.query!.$allModels as any;
+
+    allModels.update = createOperationHandler('update', context);
+    allModels.updateMany = createOperationHandler('updateMany', context);
+    allModels.create = createOperationHandler('create', context);
+    allModels.upsert = createOperationHandler('upsert', context);
+
+    // Delete listeners receive the deleted record, deleteMany listeners receive `{ count }`
+    allModels.delete = createOperationHandler('delete', context);
+    allModels.deleteMany = createOperationHandler('deleteMany', context);
+
+    // Bulk creates emit one batch event carrying the input rows in `args.data`,
+    // or one event per returned row for the *AndReturn variants in 'perRow' mode
+    allModels.createMany = createOperationHandler('createMany', context);
+    allModels.createManyAndReturn = createOperationHandler('createManyAndReturn', context);
+    allModels.updateManyAndReturn = createOperationHandler('updateManyAndReturn', context);
+
+    return client.$extends(extensionConfig);
+  };
 }
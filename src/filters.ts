@@ -0,0 +1,137 @@
+import { isSameValue } from './utils';
+
+// Prisma filter operators recognised in a field condition
+const filterOperators = new Set([
+  'equals', 'not', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte',
+  'contains', 'startsWith', 'endsWith', 'mode', 'AND', 'OR', 'NOT',
+]);
+
+// Prisma update operators that can be matched in `data` ({ increment: 1 }, ...)
+const updateOperators = new Set(['increment', 'decrement', 'multiply', 'divide']);
+
+/**
+ * Check for a plain object (not a Date, Decimal, Buffer or array)
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Unwrap `{ set: x }` and `{ equals: x }` written in args to the plain value
+ */
+function normalizeValue(value: any): any {
+  if (!isPlainObject(value)) return value;
+  const keys = Object.keys(value);
+  if (keys.length === 1 && (keys[0] === 'set' || keys[0] === 'equals')) {
+    return value[keys[0]];
+  }
+  return value;
+}
+
+/**
+ * Convert Dates and Decimals to something `<` can compare.
+ * Strings compared with a Date are parsed, as dates arrive as ISO strings in remote events.
+ */
+function toComparable(value: any, other?: any): any {
+  if (value instanceof Date) return value.getTime();
+  if (other instanceof Date && typeof value === 'string') return Date.parse(value);
+  if (value && typeof value === 'object' && typeof value.toNumber === 'function') return value.toNumber();
+  return value;
+}
+
+function compare(value: any, operand: any, test: (a: any, b: any) => boolean): boolean {
+  if (value === undefined || value === null) return false;
+  return test(toComparable(value, operand), toComparable(operand, value));
+}
+
+function stringTest(value: any, operand: string, insensitive: boolean, test: (a: string, b: string) => boolean): boolean {
+  if (typeof value !== 'string') return false;
+  return insensitive ? test(value.toLowerCase(), operand.toLowerCase()) : test(value, operand);
+}
+
+/**
+ * Evaluate a Prisma-style operator object against a value
+ */
+function matchesOperators(filter: Record<string, any>, value: any): boolean {
+  const insensitive = filter.mode === 'insensitive';
+
+  return Object.entries(filter).every(([op, operand]) => {
+    switch (op) {
+      case 'equals':
+        return isSameValue(operand, value);
+      case 'not':
+        return !matchesCondition(operand, value);
+      case 'in':
+        return toArray(operand).some((item) => isSameValue(item, value));
+      case 'notIn':
+        return !toArray(operand).some((item) => isSameValue(item, value));
+      case 'lt':
+        return compare(value, operand, (a, b) => a < b);
+      case 'lte':
+        return compare(value, operand, (a, b) => a <= b);
+      case 'gt':
+        return compare(value, operand, (a, b) => a > b);
+      case 'gte':
+        return compare(value, operand, (a, b) => a >= b);
+      case 'contains':
+        return stringTest(value, operand, insensitive, (a, b) => a.includes(b));
+      case 'startsWith':
+        return stringTest(value, operand, insensitive, (a, b) => a.startsWith(b));
+      case 'endsWith':
+        return stringTest(value, operand, insensitive, (a, b) => a.endsWith(b));
+      case 'mode':
+        return true;
+      case 'AND':
+        return toArray(operand).every((cond) => matchesCondition(cond, value));
+      case 'OR':
+        return toArray(operand).some((cond) => matchesCondition(cond, value));
+      case 'NOT':
+        return !toArray(operand).some((cond) => matchesCondition(cond, value));
+      default:
+        // increment, decrement, multiply, divide: the write must use that operator
+        return isPlainObject(value) && op in value && matchesCondition(operand, value[op]);
+    }
+  });
+}
+
+/**
+ * Check a single field condition against a value.
+ * Supports `true` (value present), predicates, arrays (one of), literals,
+ * Prisma filter operators, update operators and nested relation filters.
+ */
+export function matchesCondition(cond: any, rawValue: any): boolean {
+  const value = normalizeValue(rawValue);
+
+  if (cond === true) return value !== undefined;
+  if (typeof cond === 'function') return cond(value);
+  if (Array.isArray(cond)) return cond.some((item) => isSameValue(item, value));
+
+  if (isPlainObject(cond)) {
+    const keys = Object.keys(cond);
+    if (keys.length > 0 && keys.every((key) => filterOperators.has(key) || updateOperators.has(key))) {
+      return matchesOperators(cond, value);
+    }
+    // Anything else is a filter on a related record
+    return isPlainObject(value) && matchesFilter(cond, value);
+  }
+
+  return isSameValue(cond, value);
+}
+
+/**
+ * Check a where-style filter (fields plus AND/OR/NOT) against an object
+ */
+export function matchesFilter(filter: Record<string, any>, target: any): boolean {
+  return Object.entries(filter).every(([key, cond]) => {
+    if (key === 'AND') return toArray(cond).every((sub) => matchesFilter(sub, target));
+    if (key === 'OR') return toArray(cond).some((sub) => matchesFilter(sub, target));
+    if (key === 'NOT') return !toArray(cond).some((sub) => matchesFilter(sub, target));
+    return matchesCondition(cond, target?.[key]);
+  });
+}
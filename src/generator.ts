@@ -49,6 +49,51 @@ export async function generateTypes(opts: {
 
   console.log('Patching generated models...');
   await patchGeneratedModels(models, opts.outDir, opts.schemaPath, schema);
+
+  // Step 3: Point the listener typings at a client generated to a custom output path
+  const prismaOutputPath = getPrismaOutputPath(schema, opts.schemaPath);
+  if (prismaOutputPath) {
+    await writeClientRegistration(prismaOutputPath, opts.outDir);
+  }
+}
+
+/**
+ * Write a declaration registering the generated client in `EmitterTypes`,
+ * so model names and payloads are typed when the client is not `@prisma/client`
+ */
+async function writeClientRegistration(prismaOutputPath: string, outDir: string): Promise<void> {
+  const outPath = resolve(outDir);
+  
+  // The `prisma-client` generator emits client.ts; `prisma-client-js` an index.d.ts
+  let clientPath = prismaOutputPath;
+  try {
+    await fs.access(join(prismaOutputPath, 'client.ts'));
+    clientPath = join(prismaOutputPath, 'client');
+  } catch {
+    // index.d.ts at the output root
+  }
+  
+  let importPath = relative(outPath, clientPath).split('\\').join('/');
+  if (!importPath.startsWith('.')) {
+    importPath = `./${importPath}`;
+  }
+  
+  const declaration = [
+    '// Generated by prisma-extension-emitter. Do not edit.',
+    `import type { PrismaClient } from '${importPath}';`,
+    '',
+    "declare module 'prisma-extension-emitter' {",
+    '  interface EmitterTypes {',
+    '    client: PrismaClient;',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+  
+  await fs.mkdir(outPath, { recursive: true });
+  const filePath = join(outPath, 'prisma-emitter-client.d.ts');
+  await fs.writeFile(filePath, declaration, 'utf-8');
+  console.log(`✅ Registered client types from ${getDisplayPath(clientPath)} in ${getDisplayPath(filePath)}`);
 }
 
 /**
@@ -74,7 +119,7 @@ function getPrismaOutputPath(schemaContent: string, schemaPath: string): string
 }
 
 /**
- * Patch generated Prisma model files to add emit?: boolean to operation args
+ * Patch generated Prisma model files to add the `emit` arg to operation args
  */
 async function patchGeneratedModels(
   models: string[], 
@@ -206,14 +251,34 @@ async function patchGeneratedModels(
   }
 }
 
+// Type of the per-call `emit` arg added to the operation args
+const EMIT_ARG_TYPE = "boolean | { local?: boolean; remote?: boolean; delivery?: 'background' | 'await' | 'awaitLocal'; meta?: Record<string, unknown>; topic?: string; tags?: string[] }";
+const EMIT_ARG_DOC = 'Either boolean (emit both local and remote) or object {local?, remote?, delivery?, meta?, topic?, tags?}; without local and remote, both are emitted';
+
+// `emit` field (with its doc comment) patched by this or an earlier version
+const PATCHED_EMIT_FIELD = /(?:\/\*\*(?:(?!\*\/)[^])*\*\/\s*)?emit\?:\s*boolean[^\n]*\n?[ \t]*/;
+
+/**
+ * Add the `emit` field before the closing brace of an args type body,
+ * or replace one patched with an older type. Returns null when already up to date.
+ */
+function patchEmitField(typeBody: string, emitField: string): string | null {
+  const existing = typeBody.match(PATCHED_EMIT_FIELD);
+  if (existing) {
+    if (existing[0].includes(`emit?: ${EMIT_ARG_TYPE}`)) return null;
+    return typeBody.replace(PATCHED_EMIT_FIELD, emitField.trimStart());
+  }
+  return typeBody.slice(0, -1) + emitField + '}';
+}
+
 /**
- * Patch a single model file to add emit?: boolean
+ * Patch a single model file to add the `emit` arg
  */
 async function patchModelFile(filePath: string, modelName: string): Promise<number> {
   let content = await fs.readFile(filePath, 'utf-8');
   
   // Operations to patch
-  const operations = ['Create', 'Update', 'Upsert', 'CreateMany', 'UpdateMany', 'UpdateManyAndReturn', 'CreateManyAndReturn'];
+  const operations = ['Create', 'Update', 'Upsert', 'CreateMany', 'UpdateMany', 'UpdateManyAndReturn', 'CreateManyAndReturn', 'Delete', 'DeleteMany'];
   
   let patchedCount = 0;
   
@@ -248,18 +313,15 @@ async function patchModelFile(filePath: string, modelName: string): Promise<numb
       continue;
     }
     
-    // Check if emit is already present WITHIN this type definition only
+    // Only look WITHIN this type definition
     const typeBody = content.substring(openBraceIndex, closeBraceIndex + 1);
-    if (/\bemit\?:\s*boolean/.test(typeBody)) {
+    const emitField = '\n  /**\n   * Patched by prisma-extension-emitter\n   * @param emit - ' + EMIT_ARG_DOC + '\n   */\n  emit?: ' + EMIT_ARG_TYPE + '\n';
+    const patchedBody = patchEmitField(typeBody, emitField);
+    if (patchedBody === null) {
       continue;
     }
     
-    // Insert emit before the closing brace
-    const beforeClosing = content.substring(0, closeBraceIndex);
-    const afterClosing = content.substring(closeBraceIndex);
-    const emitField = '\n  /**\n   * Patched by prisma-extension-emitter\n   * @param emit - Either boolean (emit both local and remote) or object {local: boolean, remote: boolean}\n   */\n  emit?: boolean | { local: boolean; remote: boolean }\n';
-    
-    content = beforeClosing + emitField + afterClosing;
+    content = content.substring(0, openBraceIndex) + patchedBody + content.substring(closeBraceIndex + 1);
     patchedCount++;
   }
   
@@ -319,24 +381,21 @@ async function patchIndexDtsFile(filePath: string, models: string[]): Promise<nu
             break;
           }
           
-          // Check if emit is already present WITHIN this type definition only
+          // Only look WITHIN this type definition
           const typeBody = content.substring(openBraceIndex, closeBraceIndex + 1);
+          const emitField = '\n    /**\n     * Emit events for this operation (added by prisma-extension-emitter)\n     * @param emit - ' + EMIT_ARG_DOC + '\n     */\n    emit?: ' + EMIT_ARG_TYPE + '\n  ';
+          const patchedBody = patchEmitField(typeBody, emitField);
           
-          if (/\bemit\?:\s*boolean/.test(typeBody)) {
+          if (patchedBody === null) {
             searchPos = closeBraceIndex + 1;
             continue;
           }
           
-          // Insert emit before the closing brace
-          const beforeClosing = content.substring(0, closeBraceIndex);
-          const afterClosing = content.substring(closeBraceIndex);
-          const emitField = '\n    /**\n     * Emit events for this operation (added by prisma-extension-emitter)\n     * @param emit - Either boolean (emit both local and remote) or object {local: boolean, remote: boolean}\n     */\n    emit?: boolean | { local: boolean; remote: boolean }\n  ';
-          
-          content = beforeClosing + emitField + afterClosing;
+          content = content.substring(0, openBraceIndex) + patchedBody + content.substring(closeBraceIndex + 1);
           patchedCount++;
           
-          // Adjust search position to account for inserted content
-          searchPos = closeBraceIndex + emitField.length + 1;
+          // Adjust search position to account for the patched content
+          searchPos = openBraceIndex + patchedBody.length;
         }
       }
     }
@@ -9,18 +9,86 @@
 export type {
   ListenerFunction,
   ListenerConfig,
+  ListenerEvent,
+  BatchListenerConfig,
+  BatchListenerFunction,
+  BatchOptions,
+  RetryPolicy,
+  ListenerAttempt,
+  DeadLetter,
+  DeadLetterHandler,
+  EventFilter,
+  WaitForEventOptions,
+  EventStreamOptions,
+  BeforeListenerFunction,
+  BeforeListenerConfig,
+  FieldFilter,
+  FieldCondition,
+  WhereFilter,
+  DataFilter,
+  FieldTransition,
+  FieldTransitions,
   ModelNames,
+  ModelRecord,
+  ModelArgs,
+  ListenerRecord,
+  EmitterTypes,
+  ListenerTarget,
   MqttConfig,
+  RedisConfig,
+  RedisStreamOptions,
+  PostgresConfig,
   ExtensionOptions,
+  EmitConfig,
+  EmitOptions,
+  EmitArg,
+  EmitOperation,
+  EventOperation,
+  EventMetadata,
+  EventContext,
+  ModelEmitConfig,
+  ModelEmitDefaults,
   MqttEventPayload,
-  LogLevel
+  EventPayload,
+  EventTransport,
+  TransportStatus,
+  BulkEmitMode,
+  DeliveryMode,
+  ListenerConcurrency,
+  FieldChanges,
+  RecordSnapshot,
+  EventDetails,
+  LogLevel,
+  DatamodelInfo,
+  PublishBufferOptions,
+  BufferOverflow
 } from './types';
 
-// Export main functions
-export { listenerExtensionConfig } from './extension';
-export { prismaEventListener } from './event-listener';
-export { disconnectMqtt } from './mqtt';
+// Export main functions (bound to the default emitter)
+export {
+  listenerExtensionConfig,
+  prismaEventListener,
+  waitForEvent,
+  events,
+  flushEvents,
+  disconnectMqtt,
+  publishQueueDepth
+} from './emitter';
+export { withEmitterContext, getEmitterContext } from './request-context';
 export { logger } from './logger';
+export { EmitterVetoError, ListenerTimeoutError, EventTimeoutError, ListenerError } from './errors';
+
+// Transports for remote events
+export { MqttTransport } from './mqtt';
+export { RedisTransport } from './redis';
+export { PostgresTransport } from './postgres';
+export { MemoryTransport, MemoryBus } from './memory';
+
+// Isolated emitter instances
+export { createEmitter } from './emitter';
+export type { Emitter } from './emitter';
+export type { PrismaEventListener } from './event-listener';
+export type { Logger } from './logger';
 
 // Export listeners registry (for advanced use cases)
-export { listeners } from './listeners';
+export { listeners, beforeListeners } from './emitter';
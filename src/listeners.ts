@@ -1,36 +1,144 @@
-import { ListenerConfig, ModelNames } from './types';
-import { logger } from './logger';
+import {
+  ListenerConfig,
+  ListenerEvent,
+  ModelNames,
+  ListenerTarget,
+  EventDetails,
+  EventMetadata,
+  EventOperation,
+  EmitOperation,
+  DeadLetter
+} from './types';
+import { EmitterVetoError } from './errors';
+import { matchesFilter, matchesCondition } from './filters';
+import { runWithConcurrency, withListenerLimit } from './concurrency';
+import { runWithRetry, sendToDeadLetter } from './retry';
+import { EmitterContext } from './context';
 
-// Listeners map: model name to array of configs
-export const listeners: Record<ModelNames, ListenerConfig<any>[]> = {} as any;
+/**
+ * Get the configs registered for a model, followed by the wildcard ones
+ */
+function configsFor<C>(registry: Record<ListenerTarget, C[]>, model: ListenerTarget): C[] {
+  return [...(registry[model] ?? []), ...(model === '*' ? [] : registry['*'] ?? [])];
+}
 
 /**
  * Check if args match the listener config filters
  */
-export function matches<T>(config: ListenerConfig<T>, args: any): boolean {
-  const where = !config.where ? true : (
-    Object.entries(config.where) as [keyof T, true | T[keyof T][] | ((v: any) => boolean)][]
-  ).every(([field, cond]) => {
-    const val = args.where?.[field];
-    if (cond === true) return val !== undefined;
-    if (cond === val) return true;
-    if (Array.isArray(cond)) return cond.includes(val);
-    if (typeof cond === 'function') return (cond as (v: any) => boolean)(val);
-    return false;
-  });
+export function matches<T>(config: Pick<ListenerConfig<T>, 'where' | 'data'>, args: any): boolean {
+  const where = !config.where ? true : matchesFilter(config.where, args.where);
+  const data = !config.data ? true : matchesFilter(config.data, args.data);
+  return where && data;
+}
 
-  const data = !config.data ? true : (
-    Object.entries(config.data) as [keyof T, true | T[keyof T][] | ((v: any) => boolean)][]
-  ).every(([field, cond]) => {
-    const val = args.data?.[field];
-    if (cond === true) return val !== undefined;
-    if (cond === val) return true;
-    if (Array.isArray(cond)) return cond.includes(val);
-    if (typeof cond === 'function') return (cond as (v: any) => boolean)(val);
-    return false;
+/**
+ * Check if the operation passes the listener config `operations` filter
+ */
+export function matchesOperation(config: { operations?: string[] }, operation: string): boolean {
+  return !config.operations || config.operations.includes(operation);
+}
+
+/**
+ * Get the values an operation writes to a field: `data`, or `create` and `update` for upsert
+ */
+function writtenValues(args: any, field: string): any[] {
+  return [args?.data, args?.create, args?.update]
+    .filter((data) => data && typeof data === 'object' && !Array.isArray(data))
+    .map((data) => data[field])
+    .filter((value) => value !== undefined);
+}
+
+/**
+ * Check the listener config `fields` and `transitions` filters.
+ * With a before image, fields must actually have changed; without one, they must be
+ * written in args, and a transition's `from` is checked against an equality in `where`.
+ * Deletes write no fields and never match.
+ */
+function matchesChanges<T>(
+  config: Pick<ListenerConfig<T>, 'fields' | 'transitions'>,
+  operation: EventOperation,
+  args: any,
+  changes: EventDetails['changes']
+): boolean {
+  const { fields, transitions } = config;
+  if (!fields && !transitions) return true;
+  if (operation === 'delete' || operation === 'deleteMany') return false;
+  
+  const changed = (field: string) => (changes ? field in changes : writtenValues(args, field).length > 0);
+  if (fields && !fields.some(changed)) return false;
+  
+  return Object.entries(transitions ?? {}).every(([field, transition]: [string, any]) => {
+    if (!changed(field)) return false;
+    const { from, to } = transition ?? {};
+    if (changes) {
+      return (from === undefined || matchesCondition(from, changes[field].from))
+        && (to === undefined || matchesCondition(to, changes[field].to));
+    }
+    return (from === undefined || matchesCondition(from, args.where?.[field]))
+      && (to === undefined || writtenValues(args, field).some((value) => matchesCondition(to, value)));
   });
+}
 
-  return where && data;
+/**
+ * Apply the listener config `result` filter to an operation result.
+ * Array results (bulk operations) are narrowed to the matching rows.
+ * Returns undefined when nothing matches.
+ */
+export function filterResult<T>(config: Pick<ListenerConfig<T>, 'result'>, result: any): { result: any } | undefined {
+  if (!config.result) return { result };
+  
+  if (Array.isArray(result)) {
+    const rows = result.filter((row) => matchesFilter(config.result!, row));
+    return rows.length > 0 ? { result: rows } : undefined;
+  }
+  
+  return result && matchesFilter(config.result, result) ? { result } : undefined;
+}
+
+/**
+ * Invoke the listeners matching an event, highest priority first.
+ * They run with the configured concurrency and retry policy; failures are logged,
+ * sent to the dead-letter handler and returned, never thrown.
+ * @param source - Indicates whether the event is 'local' or 'remote'
+ */
+export async function invokeListeners<T>(
+  ctx: EmitterContext,
+  configs: ListenerConfig<any>[],
+  model: ModelNames,
+  args: any,
+  result: T,
+  operation: EventOperation,
+  source: 'local' | 'remote',
+  details: EventDetails & EventMetadata
+): Promise<DeadLetter[]> {
+  const matching = configs
+    .map((cfg) => {
+      // Skip if remoteOnly is true and source is local
+      if (cfg.remoteOnly && source === 'local') return undefined;
+      const matched = matchesOperation(cfg, operation) && matches(cfg, args) && matchesChanges(cfg, operation, args, details.changes)
+        ? filterResult(cfg, result)
+        : undefined;
+      return matched && { cfg, result: matched.result };
+    })
+    .filter((entry): entry is { cfg: ListenerConfig<any>; result: any } => entry !== undefined)
+    .sort((a, b) => (b.cfg.priority ?? 0) - (a.cfg.priority ?? 0));
+
+  const failures: DeadLetter[] = [];
+  await runWithConcurrency(matching, ctx.concurrency, async ({ cfg, result: matchedResult }) => {
+    const event: ListenerEvent<any> = { args, model, result: matchedResult, operation, source, ...details };
+    const { failed, attempts } = await withListenerLimit(cfg, cfg.concurrency, () =>
+      runWithRetry(ctx, cfg, (signal) => cfg.listener({ ...event, signal }))
+    );
+    if (failed) {
+      const error = attempts[attempts.length - 1].error;
+      const retries = attempts.length > 1 ? ` after ${attempts.length} attempts` : '';
+      ctx.logger.error(`${source === 'remote' ? 'Remote listener' : 'Listener'} for ${model} failed${retries}`, error);
+      const deadLetter: DeadLetter = { event, error, attempts, listener: cfg };
+      failures.push(deadLetter);
+      await sendToDeadLetter(ctx, deadLetter, cfg.onDeadLetter);
+    }
+  });
+  return failures;
 }
 
 /**
@@ -38,25 +146,40 @@ export function matches<T>(config: ListenerConfig<T>, args: any): boolean {
  * @param source - Indicates whether the event is 'local' or 'remote'
  */
 export async function executeLocalListeners<T>(
+  ctx: EmitterContext,
   model: ModelNames,
   args: any,
   result: T,
-  source: 'local' | 'remote' = 'local'
+  operation: EventOperation,
+  source: 'local' | 'remote',
+  details: EventDetails & EventMetadata
+): Promise<DeadLetter[]> {
+  return invokeListeners(ctx, configsFor(ctx.listeners, model), model, args, result, operation, source, details);
+}
+
+/**
+ * Execute before listeners for a model.
+ * Errors are not caught: any throw (typically EmitterVetoError) aborts the write.
+ */
+export async function executeBeforeListeners(
+  ctx: EmitterContext,
+  model: ModelNames,
+  args: any,
+  operation: EmitOperation
 ): Promise<void> {
-  const configs = listeners[model];
-  if (!configs) return;
+  const configs = configsFor(ctx.beforeListeners, model);
 
   for (const cfg of configs) {
-    // Skip if remoteOnly is true and source is local
-    if (cfg.remoteOnly && source === 'local') {
-      continue;
-    }
-    
-    if (matches(cfg, args)) {
+    if (matchesOperation(cfg, operation) && matches(cfg, args)) {
       try {
-        await cfg.listener({ args, model, result, source });
+        await cfg.listener({ args, model, operation });
       } catch (err) {
-        logger.error(`Listener for ${model} failed`, err);
+        if (err instanceof EmitterVetoError) {
+          err.model ??= model;
+          err.operation ??= operation;
+          ctx.logger.debug(`Before listener vetoed ${operation} on ${model}: ${err.message}`);
+        }
+        throw err;
       }
     }
   }
@@ -1,9 +1,9 @@
 import { LogLevel } from './types';
 
 /**
- * Logger instance for the extension
+ * Logger of an emitter instance
  */
-class Logger {
+export class Logger {
   private level: LogLevel = 'none';
 
   private readonly levels: Record<LogLevel, number> = {
@@ -72,5 +72,5 @@ class Logger {
   }
 }
 
-// Export singleton instance
+// Logger of the default emitter instance
 export const logger = new Logger();
@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events';
+import { EventPayload, EventTransport } from './types';
+import { topicMatches } from './utils';
+
+/**
+ * In-process stand-in for a broker, connecting the MemoryTransports created with it
+ */
+export class MemoryBus extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(0); // One listener per transport
+  }
+}
+
+// Bus of the transports created without one
+const defaultBus = new MemoryBus();
+
+/**
+ * Transport delivering events to the other transports of a bus in the same process,
+ * e.g. to run several simulated servers in one test without a broker
+ */
+export class MemoryTransport extends EventEmitter implements EventTransport {
+  private readonly bus: MemoryBus;
+  private readonly topics: Set<string> = new Set();
+  private closed = false;
+
+  constructor(options: { bus?: MemoryBus } = {}) {
+    super();
+    this.bus = options.bus ?? defaultBus;
+    this.bus.on('message', this.receive);
+  }
+
+  get connected(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Deliver an event to every transport of the bus subscribed to the topic, including this one
+   */
+  async publish(topic: string, payload: EventPayload): Promise<void> {
+    if (this.closed) throw new Error('MemoryTransport is closed');
+    // Serialized as it would be on the wire, so dates arrive as strings
+    const message = JSON.stringify(payload);
+    // Never run subscribers synchronously within the caller
+    await Promise.resolve();
+    this.bus.emit('message', topic, message);
+  }
+
+  async subscribe(topic: string): Promise<void> {
+    this.topics.add(topic);
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    this.topics.delete(topic);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.bus.off('message', this.receive);
+    this.topics.clear();
+    this.emit('status', 'disconnected');
+  }
+
+  private readonly receive = (topic: string, message: string): void => {
+    for (const pattern of this.topics) {
+      if (topicMatches(pattern, topic)) {
+        this.emit('message', topic, JSON.parse(message));
+        return;
+      }
+    }
+  };
+}
@@ -1,309 +1,113 @@
+import { EventEmitter } from 'events';
 import * as mqtt from 'mqtt';
-import { MqttConfig, MqttEventPayload, ModelNames, ListenerConfig } from './types';
-import { matches } from './listeners';
-import { logger } from './logger';
+import { MqttConfig, EventPayload, EventTransport } from './types';
 
-// MQTT client instances
-let mqttPublisher: mqtt.MqttClient | null = null;
-let mqttSubscriber: mqtt.MqttClient | null = null;
-let mqttConfig: MqttConfig | null = null;
+/**
+ * Transport publishing and receiving events through an MQTT broker.
+ * Publishes with one client and receives with a second one, connected on the first subscription.
+ */
+export class MqttTransport extends EventEmitter implements EventTransport {
+  private readonly publisher: mqtt.MqttClient;
+  private subscriber: mqtt.MqttClient | null = null;
 
-// Track MQTT subscriptions
-const mqttSubscriptions: Map<string, Set<ListenerConfig<any>>> = new Map();
+  constructor(private readonly config: Pick<MqttConfig, 'brokerUrl' | 'options'>) {
+    super();
+    this.publisher = mqtt.connect(config.brokerUrl, config.options);
 
-// Track recently processed local events to avoid duplicates when they come back via MQTT
-const processedLocalEvents: Map<string, number> = new Map();
-const EVENT_DEDUP_TTL = 5000; // 5 seconds
+    this.publisher.on('connect', () => {
+      this.emit('status', 'connected');
+    });
 
-/**
- * Generate a unique event ID for deduplication
- */
-function generateEventId(model: string, operation: string, args: any, result: any): string {
-  // Create a simple hash-like ID from the event data
-  const data = JSON.stringify({ model, operation, args, result });
-  // Use a simple hash or just use the stringified data (shortened)
-  return Buffer.from(data).toString('base64').substring(0, 64);
-}
+    this.publisher.on('error', (err) => {
+      this.emit('status', 'error', err);
+    });
 
-/**
- * Mark an event as processed locally
- */
-function markEventAsProcessed(eventId: string): void {
-  const now = Date.now();
-  processedLocalEvents.set(eventId, now);
-  
-  // Clean up old entries
-  for (const [id, timestamp] of processedLocalEvents.entries()) {
-    if (now - timestamp > EVENT_DEDUP_TTL) {
-      processedLocalEvents.delete(id);
-    }
+    this.publisher.on('close', () => {
+      this.emit('status', 'disconnected');
+    });
   }
-}
 
-/**
- * Check if an event was recently processed locally
- */
-function wasProcessedLocally(eventId: string): boolean {
-  const timestamp = processedLocalEvents.get(eventId);
-  if (!timestamp) return false;
-  
-  const now = Date.now();
-  if (now - timestamp > EVENT_DEDUP_TTL) {
-    processedLocalEvents.delete(eventId);
-    return false;
+  get connected(): boolean {
+    return this.publisher.connected;
   }
-  
-  return true;
-}
 
-/**
- * Initialize MQTT publisher client
- */
-export function initializeMqtt(config: MqttConfig): void {
-  if (!config.enabled) return;
-  
-  try {
-    mqttConfig = config;
-    mqttPublisher = mqtt.connect(config.brokerUrl, config.options);
-    
-    mqttPublisher.on('connect', () => {
-      logger.info('MQTT client connected to broker:', config.brokerUrl);
-    });
-    
-    mqttPublisher.on('error', (err) => {
-      logger.error('MQTT connection error:', err);
-    });
-    
-    mqttPublisher.on('close', () => {
-      logger.debug('MQTT connection closed');
+  /**
+   * Publish an event with QoS 1
+   */
+  publish(topic: string, payload: EventPayload): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.publisher.publish(topic, JSON.stringify(payload), { qos: 1 }, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
     });
-  } catch (error) {
-    logger.error('Failed to initialize MQTT client:', error);
   }
-}
 
-/**
- * Publish event to MQTT broker
- */
-export async function publishToMqtt(
-  model: ModelNames,
-  args: any,
-  result: any,
-  operation: string
-): Promise<void> {
-  if (!mqttPublisher || !mqttConfig?.enabled || !mqttPublisher.connected) {
-    return;
+  subscribe(topic: string): Promise<void> {
+    const subscriber = this.ensureSubscriber();
+    return new Promise<void>((resolve, reject) => {
+      subscriber.subscribe(topic, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
   }
-  
-  const topicPrefix = mqttConfig.topicPrefix || 'prisma/events';
-  const topic = `${topicPrefix}/${model}/${operation}`;
-  
-  // Generate event ID and mark as processed locally
-  const eventId = generateEventId(model, operation, args, result);
-  markEventAsProcessed(eventId);
-  
-  const payload: MqttEventPayload = {
-    model,
-    operation,
-    args,
-    result,
-    timestamp: new Date().toISOString(),
-    eventId // Add event ID to payload for deduplication
-  };
-  
-  return new Promise<void>((resolve, reject) => {
-    mqttPublisher!.publish(topic, JSON.stringify(payload), { qos: 1 }, (err) => {
-      if (err) {
-        logger.error(`Failed to publish to MQTT topic ${topic}:`, err);
-        reject(err);
-      } else {
-        logger.debug('Published event to MQTT:', topic);
-        resolve();
-      }
+
+  unsubscribe(topic: string): Promise<void> {
+    const subscriber = this.subscriber;
+    if (!subscriber) return Promise.resolve();
+
+    return new Promise<void>((resolve, reject) => {
+      subscriber.unsubscribe(topic, (err?: Error) => {
+        if (err) reject(err);
+        else resolve();
+      });
     });
-  });
-}
+  }
 
-/**
- * Initialize MQTT subscriber if not already initialized
- */
-function ensureSubscriberInitialized(): void {
-  if (mqttSubscriber || !mqttConfig?.enabled) {
-    return;
+  /**
+   * Disconnect both clients once their in-flight messages are sent
+   */
+  async close(): Promise<void> {
+    const clients = [this.publisher, this.subscriber].filter((client): client is mqtt.MqttClient => client !== null);
+    this.subscriber = null;
+    await Promise.all(clients.map((client) => new Promise<void>((resolve) => {
+      client.end(false, {}, () => resolve());
+    })));
   }
-  
-  try {
+
+  /**
+   * Connect the subscriber client if not already connected
+   */
+  private ensureSubscriber(): mqtt.MqttClient {
+    if (this.subscriber) return this.subscriber;
+
+    const { brokerUrl, options } = this.config;
     const subscriberOptions = {
-      ...mqttConfig.options,
-      clientId: mqttConfig.options?.clientId 
-        ? `${mqttConfig.options.clientId}-subscriber`
+      ...options,
+      clientId: options?.clientId
+        ? `${options.clientId}-subscriber`
         : `prisma-subscriber-${Math.random().toString(36).substr(2, 9)}`
     };
-    
-    mqttSubscriber = mqtt.connect(mqttConfig.brokerUrl, subscriberOptions);
-    
-    mqttSubscriber.on('connect', () => {
-      logger.info('MQTT subscriber connected to broker:', mqttConfig!.brokerUrl);
-    });
-    
-    mqttSubscriber.on('error', (err) => {
-      logger.error('MQTT subscriber error:', err);
-    });
-    
-    mqttSubscriber.on('message', (topic, message) => {
-      handleMqttMessage(topic, message);
-    });
-    
-    mqttSubscriber.on('close', () => {
-      logger.debug('MQTT subscriber connection closed');
-    });
-  } catch (error) {
-    logger.error('Failed to initialize MQTT subscriber:', error);
-  }
-}
 
-/**
- * Handle incoming MQTT messages
- */
-function handleMqttMessage(topic: string, message: Buffer): void {
-  try {
-    const event: MqttEventPayload = JSON.parse(message.toString());
-    const { model, args, result, eventId } = event;
-    
-    // Check if this event was already processed locally (deduplication)
-    if (eventId && wasProcessedLocally(eventId)) {
-      logger.debug(`Skipping duplicate event ${eventId} - already processed locally`);
-      return;
-    }
-    
-    // Get subscribers for this topic
-    const subscribers = mqttSubscriptions.get(topic);
-    if (!subscribers || subscribers.size === 0) {
-      return;
-    }
-    
-    // Execute all matching listeners
-    subscribers.forEach(async (config) => {
-      if (matches(config, args)) {
-        try {
-          await config.listener({ args, model, result, source: 'remote' });
-        } catch (err) {
-          logger.error(`Remote listener for ${model} failed`, err);
-        }
-      }
+    const subscriber = mqtt.connect(brokerUrl, subscriberOptions);
+    this.subscriber = subscriber;
+
+    subscriber.on('error', (err) => {
+      this.emit('status', 'error', err);
     });
-  } catch (err) {
-    logger.error('Failed to parse MQTT message:', err);
-  }
-}
 
-/**
- * Subscribe to MQTT topic for a model
- */
-export function subscribeToMqttTopic(
-  model: ModelNames,
-  config: ListenerConfig<any>
-): void {
-  if (!mqttConfig?.enabled) {
-    logger.warn('MQTT not configured. Cannot subscribe to remote events.');
-    return;
-  }
-  
-  ensureSubscriberInitialized();
-  
-  if (!mqttSubscriber) {
-    logger.error('Failed to initialize MQTT subscriber');
-    return;
-  }
-  
-  const topicPrefix = mqttConfig.topicPrefix || 'prisma/events';
-  // Subscribe to all operations for this model
-  const topic = `${topicPrefix}/${model}/#`;
-  
-  // Add config to subscriptions
-  if (!mqttSubscriptions.has(topic)) {
-    mqttSubscriptions.set(topic, new Set());
-    
-    // Actually subscribe to MQTT topic
-    mqttSubscriber.subscribe(topic, (err) => {
-      if (err) {
-        logger.error(`Failed to subscribe to MQTT topic ${topic}:`, err);
-      } else {
-        logger.info(`Subscribed to MQTT topic: ${topic}`);
+    subscriber.on('message', (topic, message) => {
+      let payload: EventPayload;
+      try {
+        payload = JSON.parse(message.toString());
+      } catch (err) {
+        this.emit('status', 'error', err);
+        return;
       }
+      this.emit('message', topic, payload);
     });
-  }
-  
-  mqttSubscriptions.get(topic)!.add(config);
-}
 
-/**
- * Unsubscribe from MQTT topic
- */
-export function unsubscribeFromMqttTopic(
-  model: ModelNames,
-  config: ListenerConfig<any>
-): void {
-  if (!mqttConfig?.enabled || !mqttSubscriber) {
-    return;
-  }
-  
-  const topicPrefix = mqttConfig.topicPrefix || 'prisma/events';
-  const topic = `${topicPrefix}/${model}/#`;
-  
-  const subscribers = mqttSubscriptions.get(topic);
-  if (subscribers) {
-    subscribers.delete(config);
-    
-    // If no more subscribers, unsubscribe from MQTT
-    if (subscribers.size === 0) {
-      mqttSubscriber.unsubscribe(topic, (err) => {
-        if (err) {
-          logger.error(`Failed to unsubscribe from MQTT topic ${topic}:`, err);
-        } else {
-          logger.debug(`Unsubscribed from MQTT topic: ${topic}`);
-        }
-      });
-      mqttSubscriptions.delete(topic);
-    }
+    return subscriber;
   }
 }
-
-/**
- * Disconnect MQTT clients
- */
-export function disconnectMqtt(): Promise<void> {
-  return new Promise((resolve) => {
-    const promises: Promise<void>[] = [];
-    
-    // Disconnect publisher
-    if (mqttPublisher) {
-      promises.push(new Promise<void>((res) => {
-        mqttPublisher!.end(false, {}, () => {
-          logger.debug('MQTT publisher disconnected');
-          mqttPublisher = null;
-          mqttConfig = null;
-          res();
-        });
-      }));
-    }
-    
-    // Disconnect subscriber
-    if (mqttSubscriber) {
-      promises.push(new Promise<void>((res) => {
-        mqttSubscriber!.end(false, {}, () => {
-          logger.debug('MQTT subscriber disconnected');
-          mqttSubscriber = null;
-          mqttSubscriptions.clear();
-          res();
-        });
-      }));
-    }
-    
-    if (promises.length === 0) {
-      resolve();
-    } else {
-      Promise.all(promises).then(() => resolve());
-    }
-  });
-}
@@ -0,0 +1,150 @@
+import { Logger } from './logger';
+import { DatamodelInfo } from './types';
+
+// A derived event for a write nested inside another model's args
+export interface NestedEvent {
+  model: string;
+  operation: string;
+  args: any;
+  parentEventId: string;
+}
+
+// Relation field metadata of a model field
+type RelationField = DatamodelInfo['models'][number]['fields'][number];
+
+// Relation fields of each model, keyed by model name then field name
+export type RelationMap = Map<string, Map<string, RelationField>>;
+
+/**
+ * Index the relation fields of a data model
+ */
+function indexRelations(datamodel: DatamodelInfo): RelationMap {
+  return new Map(datamodel.models.map((model) => [
+    model.name,
+    new Map(model.fields.filter((f) => f.kind === 'object').map((f) => [f.name, f])),
+  ]));
+}
+
+/**
+ * Find the relation metadata used to derive nested write events, in order:
+ * the `datamodel` option, `Prisma.dmmf.datamodel` of the default `@prisma/client` output,
+ * then the client's internal `_runtimeDataModel`, which is not a public API and may change
+ * between Prisma versions. Returns null (with a warning) when none is available.
+ */
+export function resolveRelations(datamodel: DatamodelInfo | undefined, client: any, logger: Logger): RelationMap | null {
+  if (datamodel) return indexRelations(datamodel);
+
+  try {
+    const dmmf = require('@prisma/client').Prisma?.dmmf?.datamodel;
+    if (Array.isArray(dmmf?.models) && dmmf.models.length > 0) return indexRelations(dmmf);
+  } catch {
+    // No client generated at the default location
+  }
+
+  const runtimeModels = client?._runtimeDataModel?.models;
+  if (runtimeModels && typeof runtimeModels === 'object') {
+    logger.debug('Reading relations from the internal runtime data model; pass `datamodel: Prisma.dmmf.datamodel` to avoid it');
+    return indexRelations({
+      models: Object.entries(runtimeModels).map(([name, model]: [string, any]) => ({ name, fields: model?.fields ?? [] })),
+    });
+  }
+
+  logger.warn('emitNested needs the relations of the data model: pass `datamodel: Prisma.dmmf.datamodel` to the extension options. Nested write events are skipped');
+  return null;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Walk the nested relation writes of a create/update/upsert and return one
+ * derived event per nested create, createMany, update, upsert, delete and connect.
+ * @param relations - Relations of the data model, from `resolveRelations`
+ * @param eventId - Returns a new ID for each derived event, used as `parentEventId` of its own nested writes
+ */
+export function collectNestedEvents(
+  relations: RelationMap,
+  model: string,
+  operation: string,
+  args: any,
+  parentEventId: string,
+  eventId: () => string
+): Array<NestedEvent & { eventId: string }> {
+
+  const events: Array<NestedEvent & { eventId: string }> = [];
+
+  const walkData = (currentModel: string, data: any, parentId: string): void => {
+    if (!data || typeof data !== 'object') return;
+    const modelRelations = relations.get(currentModel);
+    if (!modelRelations) return;
+
+    for (const [fieldName, input] of Object.entries(data)) {
+      const relation = modelRelations.get(fieldName);
+      if (!relation || !input || typeof input !== 'object') continue;
+      walkRelation(relation, input as Record<string, any>, parentId);
+    }
+  };
+
+  const emit = (relatedModel: string, nestedOperation: string, nestedArgs: any, parentId: string): string => {
+    const id = eventId();
+    events.push({ model: relatedModel, operation: nestedOperation, args: nestedArgs, parentEventId: parentId, eventId: id });
+    return id;
+  };
+
+  const walkRelation = (relation: RelationField, input: Record<string, any>, parentId: string): void => {
+    const relatedModel = relation.type;
+
+    if (input.create) {
+      for (const item of toArray(input.create)) {
+        const id = emit(relatedModel, 'create', { data: item }, parentId);
+        walkData(relatedModel, item, id);
+      }
+    }
+
+    if (input.createMany) {
+      emit(relatedModel, 'createMany', { data: input.createMany.data }, parentId);
+    }
+
+    if (input.update) {
+      // To-many updates are { where, data }; to-one updates are the data itself or { where?, data }
+      for (const item of toArray(input.update)) {
+        const nestedArgs = relation.isList || 'data' in item
+          ? { where: item.where, data: item.data }
+          : { data: item };
+        const id = emit(relatedModel, 'update', nestedArgs, parentId);
+        walkData(relatedModel, nestedArgs.data, id);
+      }
+    }
+
+    if (input.upsert) {
+      for (const item of toArray(input.upsert)) {
+        const id = emit(relatedModel, 'upsert', { where: item.where, create: item.create, update: item.update }, parentId);
+        walkData(relatedModel, item.create, id);
+        walkData(relatedModel, item.update, id);
+      }
+    }
+
+    if (input.delete) {
+      // To-one deletes may be `true` instead of a where clause
+      for (const item of toArray(input.delete)) {
+        emit(relatedModel, 'delete', { where: item === true ? undefined : item }, parentId);
+      }
+    }
+
+    if (input.connect) {
+      for (const item of toArray(input.connect)) {
+        emit(relatedModel, 'connect', { where: item }, parentId);
+      }
+    }
+  };
+
+  if (operation === 'upsert') {
+    walkData(model, args.create, parentEventId);
+    walkData(model, args.update, parentEventId);
+  } else {
+    walkData(model, args.data, parentEventId);
+  }
+
+  return events;
+}
@@ -0,0 +1,335 @@
+import { EventEmitter } from 'events';
+import type { Pool, Client, Notification } from 'pg';
+import { PostgresConfig, EventPayload, EventTransport } from './types';
+import { topicMatches } from './utils';
+
+const NOTIFY_LIMIT = 7900; // NOTIFY payloads must stay under 8000 bytes
+const RECONNECT_DELAY = 1000; // Wait before retrying a lost connection
+const UNDEFINED_TABLE = '42P01'; // SQLSTATE of a missing table
+
+// Notification sent on the channel: the event itself, or the ID of its row in the spill table
+type Envelope = { topic: string; payload: EventPayload } | { topic: string; spillId: string };
+
+/**
+ * Load pg, an optional peer dependency only needed for this transport
+ */
+function loadPg(): typeof import('pg') {
+  try {
+    return require('pg');
+  } catch {
+    throw new Error('The Postgres transport requires the pg package (npm install pg)');
+  }
+}
+
+/**
+ * Quote a single identifier, such as a channel name
+ */
+function quoteName(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a table name, keeping a `schema.table` qualification
+ */
+function quoteTable(name: string): string {
+  return name.split('.').map(quoteName).join('.');
+}
+
+// Socket errors raised when the server cannot be reached or the connection drops
+const CONNECTION_ERRNOS = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN',
+]);
+
+/**
+ * Whether an error means the database could not be reached, rather than a failed statement:
+ * a socket error, pg's "Connection terminated" errors, or a server error of the
+ * connection exception (08) or shutdown (57P) classes
+ */
+function isConnectionError(err: unknown): boolean {
+  const { code, message } = (err ?? {}) as { code?: unknown; message?: unknown };
+  if (typeof code === 'string') {
+    if (CONNECTION_ERRNOS.has(code)) return true;
+    if (/^[0-9A-Z]{5}$/.test(code)) return code.startsWith('08') || code.startsWith('57P');
+  }
+  return typeof message === 'string' && /^Connection terminated|not queryable/.test(message);
+}
+
+/**
+ * Transport carrying events through PostgreSQL LISTEN/NOTIFY.
+ * Every event is sent with `pg_notify` on one channel; payloads over the NOTIFY size limit
+ * are written to a spill table and the notification carries their row ID.
+ */
+export class PostgresTransport extends EventEmitter implements EventTransport {
+  private readonly pool: Pool;
+  private poolReachable = false; // Set by the first successful query
+  private probing: Promise<void> | null = null; // Retries the database until it is reachable
+  private listener: Client | null = null; // Dedicated LISTEN connection
+  private listening: Promise<void> | null = null;
+  private listenerReady = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reportedConnected = false; // Last status reported
+  private readonly topics: Set<string> = new Set();
+  private readonly channel: string;
+  private readonly spillTable: string;
+  private readonly spillTtlMs: number;
+  private spillTableReady: Promise<void> | null = null;
+  private closed = false;
+
+  constructor(private readonly config: Omit<PostgresConfig, 'enabled'>) {
+    super();
+    this.channel = config.channel ?? 'prisma_emitter';
+    this.spillTable = quoteTable(config.spillTable ?? 'prisma_emitter_spill');
+    this.spillTtlMs = config.spillTtlMs ?? 60000;
+
+    const { Pool: PgPool } = loadPg();
+    this.pool = new PgPool({ connectionString: this.connectionString, ...config.options });
+    // An idle connection failed, usually because the server went away
+    this.pool.on('error', (err) => {
+      this.emit('status', 'error', err);
+      this.connectionLost();
+    });
+    this.probe();
+  }
+
+  /**
+   * Whether the database answers, and the LISTEN connection is open while topics are subscribed
+   */
+  get connected(): boolean {
+    return !this.closed && this.poolReachable && (this.topics.size === 0 || this.listenerReady);
+  }
+
+  private get connectionString(): string | undefined {
+    return this.config.connectionString ?? process.env.DATABASE_URL;
+  }
+
+  async publish(topic: string, payload: EventPayload): Promise<void> {
+    // Serialization errors reject without touching the connection state
+    let message = JSON.stringify({ topic, payload } as Envelope);
+    try {
+      if (Buffer.byteLength(message) > NOTIFY_LIMIT) {
+        const spillId = await this.spill(topic, payload);
+        message = JSON.stringify({ topic, spillId } as Envelope);
+      }
+      await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, message]);
+    } catch (err) {
+      if (isConnectionError(err)) this.connectionLost();
+      throw err;
+    }
+  }
+
+  async subscribe(topic: string): Promise<void> {
+    if (this.closed) return;
+    this.topics.add(topic);
+    await this.listen();
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    this.topics.delete(topic);
+    if (this.topics.size > 0 || !this.listener) return;
+
+    // No topic left: release the LISTEN connection
+    const listener = this.listener;
+    this.listener = null;
+    this.listening = null;
+    this.listenerReady = false;
+    this.updateStatus();
+    await listener.end();
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.topics.clear();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+
+    const listener = this.listener;
+    this.listener = null;
+    this.listening = null;
+    await listener?.end().catch(() => undefined);
+    await this.probing;
+    await this.pool.end();
+    this.emit('status', 'disconnected');
+  }
+
+  /**
+   * Report a status change when `connected` changed since the last report
+   */
+  private updateStatus(): void {
+    const connected = this.connected;
+    if (connected === this.reportedConnected || this.closed) return;
+    this.reportedConnected = connected;
+    this.emit('status', connected ? 'connected' : 'disconnected');
+  }
+
+  /**
+   * Mark the database unreachable and retry it until it answers
+   */
+  private connectionLost(): void {
+    if (this.closed) return;
+    this.poolReachable = false;
+    this.updateStatus();
+    this.probe();
+  }
+
+  /**
+   * Query the database until it answers, reporting the first failure only
+   */
+  private probe(): void {
+    if (this.probing || this.closed) return;
+
+    this.probing = (async () => {
+      let reported = false;
+      while (!this.closed && !this.poolReachable) {
+        try {
+          await this.pool.query('SELECT 1');
+          this.poolReachable = true;
+          this.updateStatus();
+        } catch (err) {
+          if (this.closed) return;
+          if (!reported) this.emit('status', 'error', err);
+          reported = true;
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY));
+        }
+      }
+    })().finally(() => {
+      this.probing = null;
+    });
+  }
+
+  /**
+   * Open the LISTEN connection if it is not open
+   */
+  private listen(): Promise<void> {
+    if (!this.listening) {
+      this.listening = this.connectListener().catch((err) => {
+        this.listening = null;
+        this.scheduleListen();
+        throw err;
+      });
+    }
+    return this.listening;
+  }
+
+  /**
+   * Reopen the LISTEN connection after a delay, while topics are subscribed
+   */
+  private scheduleListen(): void {
+    if (this.reconnectTimer || this.closed || this.topics.size === 0) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closed || this.topics.size === 0) return;
+      // A failed attempt schedules the next one
+      this.listen().catch((err) => this.emit('status', 'error', err));
+    }, RECONNECT_DELAY);
+  }
+
+  private async connectListener(): Promise<void> {
+    const { Client: PgClient } = loadPg();
+    const listener = new PgClient({ connectionString: this.connectionString, ...this.config.options });
+    this.listener = listener;
+
+    listener.on('notification', (notification) => this.receive(notification));
+
+    listener.on('error', (err) => {
+      this.emit('status', 'error', err);
+    });
+
+    // Reopen a lost connection while topics are subscribed
+    listener.on('end', () => {
+      if (this.listener !== listener) return;
+      this.listener = null;
+      this.listening = null;
+      this.listenerReady = false;
+      this.updateStatus();
+      this.scheduleListen();
+    });
+
+    try {
+      await listener.connect();
+      await listener.query(`LISTEN ${quoteName(this.channel)}`);
+    } catch (err) {
+      if (this.listener === listener) this.listener = null;
+      listener.end().catch(() => undefined);
+      throw err;
+    }
+    this.listenerReady = true;
+    this.updateStatus();
+  }
+
+  /**
+   * Emit a notification if one of the subscribed topics matches it
+   */
+  private receive(notification: Notification): void {
+    if (notification.channel !== this.channel || !notification.payload) return;
+
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(notification.payload);
+    } catch (err) {
+      this.emit('status', 'error', err);
+      return;
+    }
+
+    const { topic } = envelope;
+    if (![...this.topics].some((subscribed) => topicMatches(subscribed, topic))) return;
+
+    if ('payload' in envelope) {
+      this.emit('message', topic, envelope.payload);
+      return;
+    }
+    this.readSpilled(envelope.spillId).then(
+      (payload) => payload && this.emit('message', topic, payload),
+      (err) => this.emit('status', 'error', err)
+    );
+  }
+
+  /**
+   * Store a payload too large for NOTIFY, removing expired ones
+   */
+  private async spill(topic: string, payload: EventPayload): Promise<string> {
+    if (this.config.createSpillTable) await this.ensureSpillTable();
+    try {
+      await this.pool.query(
+        `DELETE FROM ${this.spillTable} WHERE created_at < now() - $1 * interval '1 millisecond'`,
+        [this.spillTtlMs]
+      );
+    } catch (err) {
+      if ((err as { code?: unknown }).code !== UNDEFINED_TABLE) throw err;
+      throw new Error(
+        `Spill table ${this.spillTable} does not exist: add it to the Prisma schema or a migration, or set createSpillTable`
+      );
+    }
+    const { rows } = await this.pool.query(
+      `INSERT INTO ${this.spillTable} (topic, payload) VALUES ($1, $2) RETURNING id`,
+      [topic, JSON.stringify(payload)]
+    );
+    return String(rows[0].id);
+  }
+
+  private async readSpilled(id: string): Promise<EventPayload | null> {
+    const { rows } = await this.pool.query(`SELECT payload FROM ${this.spillTable} WHERE id = $1`, [id]);
+    return rows.length > 0 ? JSON.parse(rows[0].payload) : null;
+  }
+
+  /**
+   * Create the spill table on first use (with `createSpillTable`)
+   */
+  private ensureSpillTable(): Promise<void> {
+    if (!this.spillTableReady) {
+      this.spillTableReady = this.pool.query(
+        `CREATE TABLE IF NOT EXISTS ${this.spillTable} (
+          id BIGSERIAL PRIMARY KEY,
+          topic TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )`
+      ).then(() => undefined, (err) => {
+        this.spillTableReady = null;
+        throw err;
+      });
+    }
+    return this.spillTableReady;
+  }
+}
@@ -0,0 +1,164 @@
+import { existsSync, readFileSync, promises as fs } from 'fs';
+import { EventPayload, PublishBufferOptions, BufferOverflow } from './types';
+import { Logger } from './logger';
+
+// Event waiting to be published
+export interface BufferedEvent {
+  topic: string;
+  payload: EventPayload;
+}
+
+// Buffered event with its line in the buffer file, serialized once when buffered
+interface BufferEntry extends BufferedEvent {
+  line: string;
+}
+
+// Outgoing events held while the transport is disconnected
+export interface PublishBuffer {
+  entries: BufferEntry[]; // Oldest first
+  maxSize: number;
+  overflow: BufferOverflow;
+  filePath?: string;
+  waiters: Array<(space: boolean) => void>; // Publishes blocked on a full buffer
+  draining: boolean;
+  writing: Promise<void> | null; // File write in progress
+  dirty: boolean; // Changed since the write in progress started
+}
+
+/**
+ * Create a publish buffer, or apply new options to an existing one (keeping its events).
+ * Events saved in the buffer file are loaded first, so they are published before newer ones.
+ */
+export function configurePublishBuffer(
+  previous: PublishBuffer | null,
+  options: PublishBufferOptions,
+  logger: Logger
+): PublishBuffer {
+  const buffer: PublishBuffer = previous ?? {
+    entries: [],
+    maxSize: 0,
+    overflow: 'drop-oldest',
+    waiters: [],
+    draining: false,
+    writing: null,
+    dirty: false,
+  };
+  const previousFile = buffer.filePath;
+  buffer.maxSize = Math.max(1, options.maxSize ?? 1000);
+  buffer.overflow = options.overflow ?? 'drop-oldest';
+  buffer.filePath = options.filePath;
+
+  if (buffer.filePath && buffer.filePath !== previousFile) {
+    buffer.entries.unshift(...readBufferFile(buffer.filePath, logger));
+  }
+  if (buffer.entries.length > buffer.maxSize) {
+    logger.warn(`Publish buffer holds ${buffer.entries.length} events, keeping the newest ${buffer.maxSize}`);
+    buffer.entries.splice(0, buffer.entries.length - buffer.maxSize);
+  }
+  persist(buffer, logger);
+  // Blocked publishes check the new size and policy
+  buffer.waiters.splice(0).forEach((resolve) => resolve(true));
+  return buffer;
+}
+
+/**
+ * Read the events saved by a previous run (one JSON object per line)
+ */
+function readBufferFile(filePath: string, logger: Logger): BufferEntry[] {
+  if (!existsSync(filePath)) return [];
+
+  const entries: BufferEntry[] = [];
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const { topic, payload } = JSON.parse(line);
+      entries.push({ topic, payload, line });
+    } catch {
+      logger.warn(`Skipping unreadable line in publish buffer file ${filePath}`);
+    }
+  }
+  if (entries.length > 0) {
+    logger.info(`Loaded ${entries.length} buffered event(s) from ${filePath}`);
+  }
+  return entries;
+}
+
+/**
+ * Save the buffered events to the buffer file, one write at a time
+ */
+function persist(buffer: PublishBuffer, logger: Logger): void {
+  const { filePath } = buffer;
+  if (!filePath) return;
+  if (buffer.writing) {
+    buffer.dirty = true;
+    return;
+  }
+
+  buffer.writing = (async () => {
+    do {
+      buffer.dirty = false;
+      const content = buffer.entries.map((entry) => entry.line + '\n').join('');
+      // Write then rename, so a crash never leaves a truncated file
+      await fs.writeFile(`${filePath}.tmp`, content, 'utf-8');
+      await fs.rename(`${filePath}.tmp`, filePath);
+    } while (buffer.dirty);
+  })()
+    .catch((err) => logger.error(`Failed to save publish buffer to ${filePath}:`, err))
+    .finally(() => {
+      buffer.writing = null;
+    });
+}
+
+/**
+ * Add an event to the buffer, applying the overflow policy when it is full.
+ * With 'block', waits until an event is published; resolves false when the event was dropped.
+ * Rejects, without buffering it, an event that cannot be serialized (e.g. a BigInt field),
+ * since it could never be published.
+ */
+export async function bufferEvent(buffer: PublishBuffer, event: BufferedEvent, logger: Logger): Promise<boolean> {
+  let line: string;
+  try {
+    line = JSON.stringify({ topic: event.topic, payload: event.payload });
+  } catch (err) {
+    throw new Error(`Cannot buffer event ${event.payload.eventId}: its payload is not serializable (${(err as Error).message})`);
+  }
+
+  while (buffer.entries.length >= buffer.maxSize) {
+    if (buffer.overflow === 'drop-newest') {
+      logger.warn(`Publish buffer full (${buffer.maxSize}), dropping event ${event.payload.eventId}`);
+      return false;
+    }
+    if (buffer.overflow === 'drop-oldest') {
+      const dropped = buffer.entries.shift()!;
+      logger.warn(`Publish buffer full (${buffer.maxSize}), dropping the oldest event ${dropped.payload.eventId}`);
+      break;
+    }
+
+    const space = await new Promise<boolean>((resolve) => buffer.waiters.push(resolve));
+    if (!space) {
+      logger.warn(`Transport closed, dropping blocked event ${event.payload.eventId}`);
+      return false;
+    }
+  }
+
+  buffer.entries.push({ ...event, line });
+  persist(buffer, logger);
+  return true;
+}
+
+/**
+ * Remove the oldest event once published (or dropped), unblocking one waiting publish
+ */
+export function shiftBufferedEvent(buffer: PublishBuffer, logger: Logger): void {
+  buffer.entries.shift();
+  persist(buffer, logger);
+  buffer.waiters.shift()?.(true);
+}
+
+/**
+ * Drop the publishes blocked on a full buffer, and wait for the file to be saved
+ */
+export async function releaseBufferWaiters(buffer: PublishBuffer): Promise<void> {
+  buffer.waiters.splice(0).forEach((resolve) => resolve(false));
+  await buffer.writing;
+}
@@ -0,0 +1,276 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import { RedisConfig, EventPayload, EventTransport } from './types';
+import { topicMatches } from './utils';
+
+const DEFAULT_URL = 'redis://localhost:6379';
+const READ_RETRY_DELAY = 1000; // Wait before reading the stream again after an error
+
+/**
+ * Load ioredis, an optional peer dependency only needed for this transport
+ */
+function loadRedis(): typeof Redis {
+  try {
+    const ioredis = require('ioredis');
+    return ioredis.default ?? ioredis;
+  } catch {
+    throw new Error('The Redis transport requires the ioredis package (npm install ioredis)');
+  }
+}
+
+/**
+ * Convert a subscription topic to a Redis glob pattern.
+ * `+` and `#` both become `*`, which also spans levels, so received channels are checked again.
+ */
+function toGlob(topic: string): string {
+  return topic
+    .split('/')
+    .map((level) => (level === '+' || level === '#' ? '*' : level.replace(/[*?[\]\\]/g, '\\$&')))
+    .join('/');
+}
+
+/**
+ * Transport publishing events to Redis.
+ * In 'pubsub' mode each topic is a channel; in 'streams' mode every event is appended to one
+ * stream and read through a consumer group, so events published while a server is down
+ * are delivered once it is back.
+ */
+export class RedisTransport extends EventEmitter implements EventTransport {
+  private readonly publisher: Redis;
+  private readonly ownsPublisher: boolean;
+  // Second connection: Pub/Sub subscriptions or blocking stream reads
+  private subscriber: Redis | null = null;
+  private readonly topics: Set<string> = new Set();
+  private readonly globs: Map<string, number> = new Map(); // Subscribed glob -> topics using it
+  private readonly stream: Required<NonNullable<RedisConfig['streams']>> | null;
+  private reading: Promise<void> | null = null;
+  private closed = false;
+
+  constructor(config: Omit<RedisConfig, 'enabled'>) {
+    super();
+    if (config.mode === 'streams') {
+      if (!config.streams?.group) {
+        throw new Error("Redis 'streams' mode requires streams.group");
+      }
+      const { key, group, consumer, maxLen, blockMs, batchSize } = config.streams;
+      this.stream = {
+        key: key ?? config.topicPrefix ?? 'prisma/events',
+        group,
+        consumer: consumer ?? `consumer-${randomUUID()}`,
+        maxLen: maxLen ?? 10000,
+        blockMs: blockMs ?? 5000,
+        batchSize: batchSize ?? 100,
+      };
+    } else {
+      this.stream = null;
+    }
+
+    if (config.client) {
+      this.publisher = config.client;
+      this.ownsPublisher = false;
+    } else {
+      const RedisClient = loadRedis();
+      this.publisher = new RedisClient(config.url ?? DEFAULT_URL, config.options ?? {});
+      this.ownsPublisher = true;
+    }
+
+    this.publisher.on('ready', this.onReady);
+    this.publisher.on('error', this.onError);
+    this.publisher.on('close', this.onClose);
+  }
+
+  get connected(): boolean {
+    return !this.closed && this.publisher.status === 'ready';
+  }
+
+  async publish(topic: string, payload: EventPayload): Promise<void> {
+    const message = JSON.stringify(payload);
+    if (!this.stream) {
+      await this.publisher.publish(topic, message);
+      return;
+    }
+
+    const { key, maxLen } = this.stream;
+    await this.publisher.xadd(key, 'MAXLEN', '~', maxLen, '*', 'topic', topic, 'payload', message);
+  }
+
+  async subscribe(topic: string): Promise<void> {
+    if (this.closed || this.topics.has(topic)) return;
+    this.topics.add(topic);
+
+    if (this.stream) {
+      this.startReading();
+      return;
+    }
+
+    const glob = toGlob(topic);
+    const count = this.globs.get(glob) ?? 0;
+    this.globs.set(glob, count + 1);
+    if (count === 0) {
+      await this.ensureSubscriber().psubscribe(glob);
+    }
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    // The stream read loop stops by itself once no topic is left
+    if (!this.topics.delete(topic) || this.stream) return;
+
+    const glob = toGlob(topic);
+    const count = (this.globs.get(glob) ?? 1) - 1;
+    if (count > 0) {
+      this.globs.set(glob, count);
+      return;
+    }
+    this.globs.delete(glob);
+    await this.subscriber?.punsubscribe(glob);
+  }
+
+  /**
+   * Close the connections opened by the transport (a client passed in the config stays open)
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.topics.clear();
+    this.globs.clear();
+
+    // Disconnecting interrupts a blocking stream read
+    this.subscriber?.disconnect();
+    this.subscriber = null;
+    await this.reading;
+    if (this.ownsPublisher) {
+      await this.publisher.quit();
+    } else {
+      this.publisher.off('ready', this.onReady);
+      this.publisher.off('error', this.onError);
+      this.publisher.off('close', this.onClose);
+      this.emit('status', 'disconnected');
+    }
+  }
+
+  private readonly onReady = () => this.emit('status', 'connected');
+  private readonly onError = (err: Error) => this.emit('status', 'error', err);
+  private readonly onClose = () => this.emit('status', 'disconnected');
+
+  /**
+   * Open the second connection if not already open
+   */
+  private ensureSubscriber(): Redis {
+    if (this.subscriber) return this.subscriber;
+
+    const subscriber = this.publisher.duplicate();
+    this.subscriber = subscriber;
+
+    subscriber.on('error', (err) => {
+      this.emit('status', 'error', err);
+    });
+
+    subscriber.on('pmessage', (pattern: string, channel: string, message: string) => {
+      // A channel matching several globs arrives once per glob: keep the first subscribed topic's
+      const topic = [...this.topics].find((subscribed) => topicMatches(subscribed, channel));
+      if (topic && toGlob(topic) === pattern) {
+        this.receive(channel, message);
+      }
+    });
+
+    return subscriber;
+  }
+
+  /**
+   * Parse a received message and emit it
+   */
+  private receive(topic: string, message: string): void {
+    let payload: EventPayload;
+    try {
+      payload = JSON.parse(message);
+    } catch (err) {
+      this.emit('status', 'error', err);
+      return;
+    }
+    this.emit('message', topic, payload);
+  }
+
+  /**
+   * Start the stream read loop if it is not running
+   */
+  private startReading(): void {
+    if (this.reading || this.closed) return;
+
+    this.reading = this.readStream().finally(() => {
+      this.reading = null;
+      // A topic subscribed while the loop was ending
+      if (this.topics.size > 0) this.startReading();
+    });
+  }
+
+  /**
+   * Read the stream through the consumer group while topics are subscribed.
+   * Entries are acknowledged once emitted, including those no subscribed topic matches.
+   */
+  private async readStream(): Promise<void> {
+    const { key, group, consumer, blockMs, batchSize } = this.stream!;
+    const reader = this.ensureSubscriber();
+    let groupReady = false;
+    // Entries delivered to this consumer before a restart but never acknowledged come first
+    let cursor = '0';
+
+    while (!this.closed && this.topics.size > 0) {
+      try {
+        if (!groupReady) {
+          await this.createGroup(reader);
+          groupReady = true;
+        }
+
+        const reply = await reader.xreadgroup(
+          'GROUP', group, consumer, 'COUNT', batchSize, 'BLOCK', blockMs, 'STREAMS', key, cursor
+        ) as [string, [string, string[]][]][] | null;
+        const entries = reply?.[0]?.[1] ?? [];
+        if (cursor !== '>' && entries.length === 0) {
+          cursor = '>';
+          continue;
+        }
+
+        for (const [, fields] of entries) {
+          this.receiveEntry(fields);
+        }
+        if (entries.length > 0) {
+          await reader.xack(key, group, ...entries.map(([id]) => id));
+          if (cursor !== '>') cursor = entries[entries.length - 1][0];
+        }
+      } catch (err) {
+        if (this.closed) return;
+        this.emit('status', 'error', err);
+        groupReady = false;
+        await new Promise((resolve) => setTimeout(resolve, READ_RETRY_DELAY));
+      }
+    }
+  }
+
+  /**
+   * Create the consumer group (and the stream) if they do not exist
+   */
+  private async createGroup(reader: Redis): Promise<void> {
+    const { key, group } = this.stream!;
+    try {
+      await reader.xgroup('CREATE', key, group, '$', 'MKSTREAM');
+    } catch (err) {
+      if (!String((err as Error).message).includes('BUSYGROUP')) throw err;
+    }
+  }
+
+  /**
+   * Emit a stream entry if one of the subscribed topics matches it
+   */
+  private receiveEntry(fields: string[]): void {
+    const values: Record<string, string> = {};
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      values[fields[i]] = fields[i + 1];
+    }
+
+    const { topic, payload } = values;
+    if (topic && payload && [...this.topics].some((subscribed) => topicMatches(subscribed, topic))) {
+      this.receive(topic, payload);
+    }
+  }
+}
@@ -0,0 +1,424 @@
+import {
+  ModelNames,
+  ListenerTarget,
+  ListenerConfig,
+  EventDetails,
+  EventMetadata,
+  EventOperation,
+  EventPayload,
+  EventTransport,
+  TransportStatus,
+  PublishBufferOptions
+} from './types';
+import { invokeListeners } from './listeners';
+import { camelizeIt, topicMatches } from './utils';
+import { EmitterContext, trackInFlight } from './context';
+import {
+  PublishBuffer,
+  configurePublishBuffer,
+  bufferEvent,
+  shiftBufferedEvent,
+  releaseBufferWaiters
+} from './publish-buffer';
+
+// Transport and subscriptions of an emitter instance
+export interface RemoteState {
+  transport: EventTransport | null;
+  topicPrefix: string;
+  // Track subscriptions: topic pattern -> listener configs
+  subscriptions: Map<string, Set<ListenerConfig<any>>>;
+  // Track recently processed local events to avoid duplicates when they come back through the transport
+  processedLocalEvents: Map<string, number>;
+  detach: (() => void) | null; // Remove the handlers added to the transport
+  buffer: PublishBuffer | null; // Events waiting for the transport to connect (null when disabled)
+}
+
+const DEFAULT_TOPIC_PREFIX = 'prisma/events';
+const EVENT_DEDUP_TTL = 5000; // 5 seconds
+
+/**
+ * Create the remote state of a new emitter instance
+ */
+export function createRemoteState(): RemoteState {
+  return {
+    transport: null,
+    topicPrefix: DEFAULT_TOPIC_PREFIX,
+    subscriptions: new Map(),
+    processedLocalEvents: new Map(),
+    detach: null,
+    buffer: null,
+  };
+}
+
+/**
+ * Generate a unique event ID for deduplication
+ */
+function generateEventId(model: string, operation: string, args: any, result: any): string {
+  // Create a simple hash-like ID from the event data
+  const data = JSON.stringify({ model, operation, args, result });
+  // Use a simple hash or just use the stringified data (shortened)
+  return Buffer.from(data).toString('base64').substring(0, 64);
+}
+
+/**
+ * Mark an event as processed locally
+ */
+function markEventAsProcessed(state: RemoteState, eventId: string): void {
+  const { processedLocalEvents } = state;
+  const now = Date.now();
+  processedLocalEvents.set(eventId, now);
+
+  // Clean up old entries
+  for (const [id, timestamp] of processedLocalEvents.entries()) {
+    if (now - timestamp > EVENT_DEDUP_TTL) {
+      processedLocalEvents.delete(id);
+    }
+  }
+}
+
+/**
+ * Check if an event was recently processed locally
+ */
+function wasProcessedLocally(state: RemoteState, eventId: string): boolean {
+  const { processedLocalEvents } = state;
+  const timestamp = processedLocalEvents.get(eventId);
+  if (!timestamp) return false;
+
+  const now = Date.now();
+  if (now - timestamp > EVENT_DEDUP_TTL) {
+    processedLocalEvents.delete(eventId);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Use a transport for the remote events of an emitter instance (null for none).
+ * A previous transport is closed; existing subscriptions move to the new one.
+ */
+export function attachTransport(
+  ctx: EmitterContext,
+  transport: EventTransport | null,
+  topicPrefix: string = DEFAULT_TOPIC_PREFIX
+): void {
+  const { remote: state, logger } = ctx;
+  const previous = state.transport;
+  state.detach?.();
+  state.detach = null;
+  if (previous && previous !== transport) {
+    logger.debug('Transport reconfigured, closing the previous one');
+    previous.close().catch((err) => logger.error('Failed to close transport:', err));
+  }
+
+  state.transport = transport;
+  state.topicPrefix = topicPrefix;
+  if (!transport) return;
+
+  const onMessage = (topic: string, payload: EventPayload) => handleMessage(ctx, topic, payload);
+  const onStatus = (status: TransportStatus, error?: unknown) => {
+    if (status === 'error') {
+      logger.error('Transport error:', error);
+    } else if (status === 'connected') {
+      logger.info('Transport connected');
+      drainBuffer(ctx);
+    } else {
+      logger.debug('Transport disconnected');
+    }
+  };
+  transport.on('message', onMessage);
+  transport.on('status', onStatus);
+  state.detach = () => {
+    transport.off('message', onMessage);
+    transport.off('status', onStatus);
+  };
+
+  // Listeners registered before this call keep receiving remote events
+  for (const topic of state.subscriptions.keys()) {
+    subscribeTopic(ctx, topic);
+  }
+  drainBuffer(ctx);
+}
+
+/**
+ * Set up the publish buffer of an emitter instance (false disables it, dropping held events)
+ */
+export function setPublishBuffer(ctx: EmitterContext, options: PublishBufferOptions | false = {}): void {
+  const { remote: state, logger } = ctx;
+  if (options === false) {
+    if (state.buffer && state.buffer.entries.length > 0) {
+      logger.warn(`Publish buffer disabled, dropping ${state.buffer.entries.length} held event(s)`);
+    }
+    if (state.buffer) void releaseBufferWaiters(state.buffer);
+    state.buffer = null;
+    return;
+  }
+  state.buffer = configurePublishBuffer(state.buffer, options, logger);
+}
+
+/**
+ * Number of events waiting in the publish buffer
+ */
+export function getQueueDepth(ctx: EmitterContext): number {
+  return ctx.remote.buffer?.entries.length ?? 0;
+}
+
+/**
+ * Publish the buffered events in order while the transport stays connected
+ */
+function drainBuffer(ctx: EmitterContext): void {
+  const { remote: state } = ctx;
+  const buffer = state.buffer;
+  if (!buffer || buffer.draining || buffer.entries.length === 0 || !state.transport?.connected) return;
+
+  buffer.draining = true;
+  trackInFlight(ctx, publishBuffered(ctx, buffer).finally(() => {
+    buffer.draining = false;
+  }));
+}
+
+async function publishBuffered(ctx: EmitterContext, buffer: PublishBuffer): Promise<void> {
+  const { remote: state, logger } = ctx;
+  const count = buffer.entries.length;
+  logger.info(`Publishing ${count} buffered event(s)`);
+
+  while (buffer.entries.length > 0) {
+    const transport = state.transport;
+    if (!transport?.connected) return;
+
+    const { topic, payload } = buffer.entries[0];
+    // Events loaded from the buffer file were not marked by this process
+    if (payload.eventId) markEventAsProcessed(state, payload.eventId);
+    try {
+      await transport.publish(topic, payload);
+    } catch (err) {
+      // Still connected: the event itself is at fault, and would block the ones behind it forever
+      if (transport.connected) {
+        logger.error(`Dropping buffered event ${payload.eventId}, publish to topic ${topic} failed:`, err);
+        shiftBufferedEvent(buffer, logger);
+        continue;
+      }
+      // Kept at the head of the buffer, retried on the reconnection
+      logger.error(`Failed to publish buffered event to topic ${topic}:`, err);
+      return;
+    }
+    shiftBufferedEvent(buffer, logger);
+  }
+  logger.debug('Publish buffer drained');
+}
+
+/**
+ * Publish an event to the transport
+ * @param customTopic - Topic replacing `<prefix>/<model>/<operation>` (from `emit: { topic }`)
+ */
+export async function publishEvent(
+  ctx: EmitterContext,
+  model: ModelNames,
+  args: any,
+  result: any,
+  operation: string,
+  details: EventDetails = {},
+  customTopic?: string
+): Promise<void> {
+  const { remote: state, logger } = ctx;
+  const transport = state.transport;
+  if (!transport) {
+    return;
+  }
+
+  // Same model casing as listener registrations, so `<prefix>/user/#` receives it
+  const topic = customTopic ?? `${state.topicPrefix}/${camelizeIt(model)}/${operation}`;
+
+  // Use the emitted event ID (or generate one) and mark as processed locally
+  const eventId = details.eventId ?? generateEventId(model, operation, args, result);
+  markEventAsProcessed(state, eventId);
+
+  const payload: EventPayload = {
+    model,
+    operation,
+    args,
+    result,
+    ...details,
+    timestamp: details.timestamp ?? new Date().toISOString(),
+    eventId // Add event ID to payload for deduplication
+  };
+
+  // Hold the event while disconnected, and behind already held events to keep the order
+  const buffer = state.buffer;
+  if (buffer && (!transport.connected || buffer.entries.length > 0)) {
+    if (await bufferEvent(buffer, { topic, payload }, logger)) {
+      logger.debug(`Buffered event for topic ${topic} (${buffer.entries.length} waiting)`);
+    }
+    drainBuffer(ctx);
+    return;
+  }
+  if (!transport.connected) {
+    logger.warn(`Transport not connected, dropping event for topic ${topic}`);
+    return;
+  }
+
+  try {
+    await transport.publish(topic, payload);
+    logger.debug('Published event to topic:', topic);
+  } catch (err) {
+    // The transport noticed the connection loss on this publish: hold the event for the reconnection
+    if (buffer && !transport.connected) {
+      logger.warn(`Failed to publish to topic ${topic}, buffering until the transport reconnects:`, err);
+      await bufferEvent(buffer, { topic, payload }, logger);
+      return;
+    }
+    logger.error(`Failed to publish to topic ${topic}:`, err);
+    throw err;
+  }
+}
+
+/**
+ * Subscribe the transport to a topic
+ */
+function subscribeTopic(ctx: EmitterContext, topic: string): void {
+  ctx.remote.transport?.subscribe(topic).then(
+    () => ctx.logger.info(`Subscribed to topic: ${topic}`),
+    (err) => ctx.logger.error(`Failed to subscribe to topic ${topic}:`, err)
+  );
+}
+
+/**
+ * Get the subscription topic for a listener target
+ */
+function subscriptionTopic(topicPrefix: string, model: ListenerTarget): string {
+  return `${topicPrefix}/${model === '*' ? '+' : model}/#`;
+}
+
+/**
+ * Handle an event received from the transport
+ */
+function handleMessage(ctx: EmitterContext, topic: string, event: EventPayload): void {
+  const { remote: state, logger } = ctx;
+  try {
+    const { model, operation, args, result, ...details } = event;
+    const { eventId } = details;
+
+    // Events from older publishers may lack some metadata
+    const metadata: EventMetadata = {
+      eventId: eventId ?? '',
+      timestamp: details.timestamp,
+      instanceId: details.instanceId ?? 'unknown',
+    };
+
+    // Events published by this instance come back through the transport, possibly long after
+    // the dedup TTL (a lagging stream reader, a replayed publish buffer)
+    if (details.instanceId === ctx.instanceId) {
+      logger.debug(`Skipping event ${eventId} - published by this instance`);
+      return;
+    }
+
+    // Check if this event was already processed locally (deduplication)
+    if (eventId && wasProcessedLocally(state, eventId)) {
+      logger.debug(`Skipping duplicate event ${eventId} - already processed locally`);
+      return;
+    }
+
+    // Get subscribers whose topic pattern matches, once each
+    const subscribers: Set<ListenerConfig<any>> = new Set();
+    for (const [pattern, configs] of state.subscriptions) {
+      if (topicMatches(pattern, topic)) {
+        configs.forEach((config) => subscribers.add(config));
+      }
+    }
+    if (subscribers.size === 0) {
+      return;
+    }
+
+    // Execute all matching listeners
+    trackInFlight(ctx, invokeListeners(
+      ctx,
+      [...subscribers],
+      camelizeIt(model) as ModelNames, // Same casing as local deliveries
+      args,
+      result,
+      operation as EventOperation,
+      'remote',
+      { ...details, ...metadata }
+    ));
+  } catch (err) {
+    logger.error('Failed to handle remote event:', err);
+  }
+}
+
+/**
+ * Subscribe to the topic of a model (or every model for '*')
+ */
+export function subscribeRemote(
+  ctx: EmitterContext,
+  model: ListenerTarget,
+  config: ListenerConfig<any>
+): void {
+  const { remote: state, logger } = ctx;
+  if (!state.transport) {
+    logger.warn('No transport configured. Cannot subscribe to remote events.');
+    return;
+  }
+
+  // Subscribe to all operations for this model
+  const topic = subscriptionTopic(state.topicPrefix, model);
+
+  // Add config to subscriptions
+  if (!state.subscriptions.has(topic)) {
+    state.subscriptions.set(topic, new Set());
+
+    // Actually subscribe to the topic
+    subscribeTopic(ctx, topic);
+  }
+
+  state.subscriptions.get(topic)!.add(config);
+}
+
+/**
+ * Unsubscribe a listener from the topic of a model
+ */
+export function unsubscribeRemote(
+  ctx: EmitterContext,
+  model: ListenerTarget,
+  config: ListenerConfig<any>
+): void {
+  const { remote: state, logger } = ctx;
+  const transport = state.transport;
+  if (!transport) {
+    return;
+  }
+
+  const topic = subscriptionTopic(state.topicPrefix, model);
+
+  const subscribers = state.subscriptions.get(topic);
+  if (subscribers) {
+    subscribers.delete(config);
+
+    // If no more subscribers, unsubscribe from the topic
+    if (subscribers.size === 0) {
+      transport.unsubscribe(topic).then(
+        () => logger.debug(`Unsubscribed from topic: ${topic}`),
+        (err) => logger.error(`Failed to unsubscribe from topic ${topic}:`, err)
+      );
+      state.subscriptions.delete(topic);
+    }
+  }
+}
+
+/**
+ * Close the transport of an emitter instance
+ */
+export async function closeTransport(ctx: EmitterContext): Promise<void> {
+  const { remote: state, logger } = ctx;
+  const transport = state.transport;
+  if (!transport) return;
+
+  state.detach?.();
+  state.detach = null;
+  state.transport = null;
+  state.subscriptions.clear();
+  await transport.close();
+  logger.debug('Transport closed');
+
+  // Held events stay buffered (and saved to the buffer file) for a later transport
+  if (state.buffer) await releaseBufferWaiters(state.buffer);
+}
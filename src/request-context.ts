@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventContext } from './types';
+
+// Context set by the caller, attached to the events of the writes it makes
+const contextScope = new AsyncLocalStorage<EventContext>();
+
+/**
+ * Run a function with a context attached to every event emitted by its writes.
+ * Nested calls extend the outer context, overriding the keys they set.
+ */
+export function withEmitterContext<R>(context: EventContext, fn: () => R): R {
+  return contextScope.run({ ...contextScope.getStore(), ...context }, fn);
+}
+
+/**
+ * Get a copy of the context in scope, if any
+ */
+export function getEmitterContext(): EventContext | undefined {
+  const context = contextScope.getStore();
+  return context && { ...context };
+}
@@ -0,0 +1,104 @@
+import { DeadLetter, DeadLetterHandler, ListenerAttempt, RetryPolicy } from './types';
+import { ListenerTimeoutError } from './errors';
+import { EmitterContext } from './context';
+
+/**
+ * Resolve a retry option to a full policy
+ */
+function resolvePolicy(retry: RetryPolicy | number | undefined): Required<RetryPolicy> {
+  const policy = typeof retry === 'number' ? { attempts: retry } : retry ?? {};
+  return {
+    attempts: Math.max(1, Math.floor(policy.attempts ?? 1)),
+    backoffMs: policy.backoffMs ?? 100,
+    factor: policy.factor ?? 2,
+    maxBackoffMs: policy.maxBackoffMs ?? 30000,
+    jitter: policy.jitter ?? true,
+  };
+}
+
+/**
+ * Delay before the retry that follows a failed attempt
+ */
+function backoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const delay = Math.min(policy.maxBackoffMs, policy.backoffMs * policy.factor ** (attempt - 1));
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Run one attempt, aborting its signal and rejecting once it exceeds `timeoutMs`
+ */
+async function runAttempt(run: (signal: AbortSignal) => Promise<void> | void, timeoutMs?: number): Promise<void> {
+  const controller = new AbortController();
+  if (timeoutMs === undefined) {
+    return run(controller.signal);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new ListenerTimeoutError(timeoutMs);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+  });
+
+  try {
+    await Promise.race([Promise.resolve().then(() => run(controller.signal)), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a listener with its retry policy and timeout.
+ * Returns the failed attempts; `failed` is set when none succeeded.
+ */
+export async function runWithRetry(
+  ctx: EmitterContext,
+  options: { retry?: RetryPolicy | number; timeoutMs?: number },
+  run: (signal: AbortSignal) => Promise<void> | void
+): Promise<{ failed: boolean; attempts: ListenerAttempt[] }> {
+  const policy = resolvePolicy(options.retry);
+  const attempts: ListenerAttempt[] = [];
+
+  for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+    const startedAt = new Date();
+    try {
+      await runAttempt(run, options.timeoutMs);
+      return { failed: false, attempts };
+    } catch (error) {
+      attempts.push({
+        attempt,
+        error,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        timedOut: error instanceof ListenerTimeoutError,
+      });
+      if (attempt < policy.attempts) {
+        ctx.logger.debug(`Listener attempt ${attempt} failed, retrying`, error);
+        await new Promise((resolve) => setTimeout(resolve, backoffDelay(policy, attempt)));
+      }
+    }
+  }
+
+  return { failed: true, attempts };
+}
+
+/**
+ * Hand an event whose listener failed every attempt to its dead-letter handler,
+ * or the emitter's one. Errors thrown by the handler are logged.
+ */
+export async function sendToDeadLetter(
+  ctx: EmitterContext,
+  deadLetter: DeadLetter,
+  handler?: DeadLetterHandler
+): Promise<void> {
+  const target = handler ?? ctx.deadLetterHandler;
+  if (!target) return;
+
+  try {
+    await target(deadLetter);
+  } catch (err) {
+    ctx.logger.error(`Dead-letter handler for ${deadLetter.event.model} failed`, err);
+  }
+}
@@ -1,35 +1,63 @@
-import { ModelNames } from './types';
+import { randomUUID } from 'crypto';
+import { ModelNames, EventDetails, EventMetadata, EventOperation, DeliveryMode, DeadLetter } from './types';
 import { camelizeIt } from './utils';
 import { executeLocalListeners } from './listeners';
-import { publishToMqtt } from './mqtt';
-import { logger } from './logger';
+import { publishEvent } from './remote';
+import { flushPendingBatches, hasPendingBatches } from './coalesce';
+import { EmitterContext, trackInFlight } from './context';
 
 /**
- * Run both local listeners and publish to MQTT
+ * Resolve once all in-flight listeners and publishes have settled,
+ * including work started while waiting.
+ * Events held by batched, debounced and throttled listeners are delivered right away.
+ */
+export async function flushEvents(ctx: EmitterContext): Promise<void> {
+  do {
+    await Promise.allSettled(Array.from(ctx.inFlight));
+    await flushPendingBatches(ctx);
+  } while (ctx.inFlight.size > 0 || hasPendingBatches(ctx));
+}
+
+/**
+ * Run both local listeners and publish to the transport.
+ * Resolves with the local listeners that failed every attempt.
  * @param local - Whether to run local listeners (default: true)
- * @param remote - Whether to publish to MQTT (default: true)
+ * @param remote - Whether to publish to the transport (default: true)
+ * @param delivery - With 'awaitLocal' the returned promise does not wait for the publish (default: 'await')
+ * @param topic - Topic replacing `<prefix>/<model>/<operation>`
+ * @param details - Event metadata, parent event ID and before/after images
  */
 export async function runListeners<T>(
+  ctx: EmitterContext,
   model: ModelNames,
   args: any,
   result: T,
   operation: string = 'unknown',
-  options: { local?: boolean; remote?: boolean } = {}
-): Promise<void> {
-  const { local = true, remote = true } = options;
+  options: { local?: boolean; remote?: boolean; delivery?: DeliveryMode; topic?: string } = {},
+  details: EventDetails = {}
+): Promise<DeadLetter[]> {
+  const { local = true, remote = true, delivery = 'await', topic } = options;
+  
+  // Fill in metadata once so local and remote deliveries carry the same values
+  const event: EventDetails & EventMetadata = {
+    ...details,
+    eventId: details.eventId ?? randomUUID(),
+    timestamp: details.timestamp ?? new Date().toISOString(),
+    instanceId: details.instanceId ?? ctx.instanceId,
+  };
   
   // Run local listeners if enabled
-  if (local) {
-    const camelizedModel = camelizeIt(model);
-    await executeLocalListeners(camelizedModel as ModelNames, args, result, 'local');
-  }
+  const localRun = local
+    ? trackInFlight(ctx, executeLocalListeners(ctx, camelizeIt(model) as ModelNames, args, result, operation as EventOperation, 'local', event))
+    : Promise.resolve([]);
+  
+  // Publish to the transport if configured, once local listeners are done
+  const remoteRun = remote
+    ? trackInFlight(ctx, localRun.then(() => publishEvent(ctx, model, args, result, operation, event, topic)).catch((err) => {
+        ctx.logger.error(`Publish for ${model} failed`, err);
+      }))
+    : Promise.resolve();
   
-  // Publish to MQTT if configured and enabled
-  if (remote) {
-    try {
-      await publishToMqtt(model, args, result, operation);
-    } catch (err) {
-      logger.error(`MQTT publish for ${model} failed`, err);
-    }
-  }
+  if (delivery !== 'awaitLocal') await remoteRun;
+  return localRun;
 }
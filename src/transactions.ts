@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EmitterContext } from './context';
+import { ListenerError } from './errors';
+
+// An emission held back until its transaction commits
+interface PendingDispatch {
+  order: number;
+  dispatch: () => Promise<void>;
+  wait: boolean; // Whether $transaction resolves only after delivery
+}
+
+// State of the `$transaction` call currently in scope
+interface TransactionScope {
+  pending: PendingDispatch[]; // Events buffered until commit
+  client: any; // Client passed to an interactive transaction's callback
+}
+
+const transactionScope = new AsyncLocalStorage<TransactionScope>();
+
+/**
+ * Buffer a dispatch if the query ran inside a transaction started through the extension.
+ * Returns false when the dispatch should run immediately.
+ * @param transaction - `__internalParams.transaction` of the query ({ kind: 'itx' | 'batch', ... })
+ * @param wait - Whether the `$transaction` call should wait for the delivery after commit
+ */
+export function deferUntilCommit(
+  ctx: EmitterContext,
+  transaction: any,
+  dispatch: () => Promise<void>,
+  wait: boolean = false
+): boolean {
+  if (!transaction) return false;
+
+  const pending = transactionScope.getStore()?.pending;
+  if (!pending) {
+    ctx.logger.debug('Transaction was not started through the extension, emitting without waiting for commit');
+    return false;
+  }
+
+  // Batch queries carry their position in the array; interactive ones are buffered in completion order
+  const order = transaction.kind === 'batch' && typeof transaction.index === 'number'
+    ? transaction.index
+    : pending.length;
+  pending.push({ order, dispatch, wait });
+  return true;
+}
+
+/**
+ * Run a `$transaction` call, flushing its buffered events in order after commit
+ * and discarding them on rollback.
+ */
+export async function withTransactionScope<R>(ctx: EmitterContext, run: () => Promise<R>): Promise<R> {
+  const pending: PendingDispatch[] = [];
+
+  let result: R;
+  try {
+    result = await transactionScope.run({ pending, client: null }, run);
+  } catch (err) {
+    if (pending.length > 0) {
+      ctx.logger.debug(`Transaction rolled back, discarding ${pending.length} buffered event(s)`);
+    }
+    throw err;
+  }
+
+  if (pending.length > 0) {
+    const flushed = flushPending(pending.sort((a, b) => a.order - b.order));
+    if (pending.some((p) => p.wait)) await flushed;
+  }
+  return result;
+}
+
+/**
+ * Wrap the callback of an interactive transaction so the queries in it can reach its client
+ */
+export function bindTransactionClient<F extends (client: any, ...rest: any[]) => unknown>(callback: F): F {
+  return ((client: any, ...rest: any[]) => {
+    const scope = transactionScope.getStore();
+    if (scope) scope.client = client;
+    return callback(client, ...rest);
+  }) as F;
+}
+
+/**
+ * Get the client to read with inside a transaction, so reads see its uncommitted writes.
+ * Returns null for batch transactions (their queries are sent together, so no read can run
+ * between them) and for transactions not started through the extension.
+ * @param transaction - `__internalParams.transaction` of the query
+ */
+export function getTransactionClient(transaction: any): any {
+  if (transaction?.kind !== 'itx') return null;
+  return transactionScope.getStore()?.client ?? null;
+}
+
+/**
+ * Dispatch buffered events sequentially.
+ * Each dispatch resolves according to its own delivery mode; a failed one does not stop the
+ * others, and the listener failures of all of them are thrown together at the end.
+ */
+async function flushPending(pending: PendingDispatch[]): Promise<void> {
+  const errors: unknown[] = [];
+  for (const { dispatch } of pending) {
+    await dispatch().catch((err) => errors.push(err));
+  }
+  if (errors.length === 0) return;
+  if (errors.length === 1 || !errors.every((err) => err instanceof ListenerError)) throw errors[0];
+  throw new ListenerError((errors as ListenerError[]).flatMap((err) => err.failures));
+}
@@ -1,31 +1,313 @@
 import type { PrismaClient } from '@prisma/client';
 import * as mqtt from 'mqtt';
 
+// When a write resolves relative to its listeners:
+// 'background' - immediately, 'await' - after local listeners and MQTT publish,
+// 'awaitLocal' - after local listeners (MQTT publish continues in the background).
+// Listener errors are only logged unless `throwListenerErrors` is set.
+export type DeliveryMode = 'background' | 'await' | 'awaitLocal';
+
 // Emit configuration type
-export type EmitConfig = boolean | { local: boolean; remote: boolean };
+export type EmitConfig = boolean | { local: boolean; remote: boolean; delivery?: DeliveryMode };
 
-// Listener function type
-export type ListenerFunction<T> = (payload: {
-  args: any;
-  model: ModelNames;
-  result: T;
-  source: 'local' | 'remote'; // Indicates where the event originated
+// Per-call `emit` object. Without `local` and `remote`, the write is emitted to both.
+export interface EmitOptions {
+  local?: boolean;
+  remote?: boolean;
+  delivery?: DeliveryMode;
+  meta?: Record<string, unknown>; // Delivered to listeners and MQTT subscribers as `meta`
+  topic?: string; // MQTT topic to publish to instead of `<prefix>/<model>/<operation>`
+  tags?: string[]; // Delivered to listeners and MQTT subscribers as `tags`
+}
+
+// Per-call `emit` arg of a write
+export type EmitArg = boolean | EmitOptions;
+
+// Operations intercepted by the extension
+export type EmitOperation =
+  | 'create'
+  | 'createMany'
+  | 'createManyAndReturn'
+  | 'update'
+  | 'updateMany'
+  | 'updateManyAndReturn'
+  | 'upsert'
+  | 'delete'
+  | 'deleteMany';
+
+// Operations an event can carry (derived nested events may also be 'connect')
+export type EventOperation = EmitOperation | 'connect';
+
+// Emit default for one model: every operation, or per operation
+export type ModelEmitConfig = EmitConfig | Partial<Record<EmitOperation, EmitConfig>>;
+
+// Emit defaults keyed by model, with `$default` for models not listed
+export type ModelEmitDefaults = Partial<Record<ModelNames, ModelEmitConfig>> & {
+  $default?: ModelEmitConfig;
+};
+
+// Changed fields between the before and after images: field -> { from, to }
+export type FieldChanges = Record<string, { from: any; to: any }>;
+
+// Pre- and post-images of a record, captured when `captureBefore` is enabled
+export interface RecordSnapshot {
+  before: any; // Record before the write (null if it did not exist)
+  after: any; // Record after the write (null for delete)
+  changes: FieldChanges;
+}
+
+// Metadata present on every event, identical for local and remote deliveries
+export interface EventMetadata {
+  eventId: string; // Unique ID of the event (also used for MQTT deduplication)
+  timestamp: string; // ISO time the write was emitted
+  instanceId: string; // ID of the process that emitted the event
+}
+
+// Context of the code that made a write, set with `withEmitterContext` (must be JSON-serializable)
+export interface EventContext {
+  actorId?: string; // User or service that caused the write
+  requestId?: string;
+  tenantId?: string;
+  [key: string]: unknown;
+}
+
+// Optional details carried alongside an event
+export interface EventDetails extends Partial<RecordSnapshot>, Partial<EventMetadata> {
+  parentEventId?: string; // Set on events derived from a nested write of another event
+  context?: EventContext; // Context in scope when the write ran
+  meta?: Record<string, unknown>; // From the per-call `emit` arg
+  tags?: string[]; // From the per-call `emit` arg
+}
+
+// Event delivered to an after listener, narrowed to the args of its operation by checking `operation`
+export type ListenerEvent<T, M extends ModelNames = ModelNames> = {
+  [O in EventOperation]: {
+    args: ModelArgs<M, O>;
+    model: M;
+    result: T;
+    operation: O; // Prisma operation that produced the event (e.g. 'create', 'delete')
+    source: 'local' | 'remote'; // Indicates where the event originated
+  }
+}[EventOperation] & EventDetails & EventMetadata;
+
+// Listener function type (M narrows the model for multi-model listeners)
+export type ListenerFunction<T, M extends ModelNames = ModelNames> = (payload: ListenerEvent<T, M> & {
+  signal: AbortSignal; // Aborted when the attempt exceeds `timeoutMs`
 }) => Promise<void> | void;
 
+// Retry policy for a failing listener
+export interface RetryPolicy {
+  attempts?: number; // Total attempts including the first (default: 1)
+  backoffMs?: number; // Delay before the first retry (default: 100)
+  factor?: number; // Multiplier applied to the delay after each retry (default: 2)
+  maxBackoffMs?: number; // Upper bound of the delay (default: 30000)
+  jitter?: boolean; // Randomize each delay between half and all of it (default: true)
+}
+
+// One failed attempt of a listener
+export interface ListenerAttempt {
+  attempt: number; // 1 for the first call
+  error: unknown;
+  startedAt: string; // ISO time the attempt started
+  durationMs: number;
+  timedOut: boolean;
+}
+
+// Event whose listener failed every attempt
+export interface DeadLetter<T = any, M extends ModelNames = ModelNames> {
+  event: ListenerEvent<T, M>;
+  error: unknown; // Error of the last attempt
+  attempts: ListenerAttempt[];
+  listener: ListenerConfig<T, M> | BatchListenerConfig<T, M>;
+}
+
+// Called once the retries of a listener are exhausted
+export type DeadLetterHandler<T = any, M extends ModelNames = ModelNames> = (
+  deadLetter: DeadLetter<T, M>
+) => Promise<void> | void;
+
+// Before listener function type (runs before the query, may mutate args in place)
+export type BeforeListenerFunction<M extends ModelNames = ModelNames> = (payload: {
+  [O in EmitOperation]: {
+    args: ModelArgs<M, O>;
+    model: M;
+    operation: O;
+  }
+}[EmitOperation]) => Promise<void> | void;
+
+// Prisma-style filter operators for a single field
+export interface FieldFilter<V> {
+  equals?: V;
+  not?: FieldCondition<V>;
+  in?: V[];
+  notIn?: V[];
+  lt?: V;
+  lte?: V;
+  gt?: V;
+  gte?: V;
+  contains?: string;
+  startsWith?: string;
+  endsWith?: string;
+  mode?: 'default' | 'insensitive';
+  AND?: FieldCondition<V> | FieldCondition<V>[];
+  OR?: FieldCondition<V>[];
+  NOT?: FieldCondition<V> | FieldCondition<V>[];
+}
+
+// Condition on a field: present (true), one of, literal, predicate, operators, or a related record filter
+export type FieldCondition<V> =
+  | true
+  | V
+  | V[]
+  | string
+  | ((value: V) => boolean)
+  | FieldFilter<V>
+  | (NonNullable<V> extends Date ? never : NonNullable<V> extends object ? WhereFilter<NonNullable<V>> : never);
+
+// Where-style filter on a record, combinable with AND/OR/NOT
+export type WhereFilter<T> = { [K in keyof T]?: FieldCondition<T[K]> } & {
+  AND?: WhereFilter<T> | WhereFilter<T>[];
+  OR?: WhereFilter<T>[];
+  NOT?: WhereFilter<T> | WhereFilter<T>[];
+};
+
+// Filter on `args.data`, where fields may also match update operators ({ increment: { gt: 10 } })
+export type DataFilter<M extends ModelNames = ModelNames> = { [K in UnionKeys<ModelWriteData<M>>]?: any } & {
+  AND?: DataFilter<M> | DataFilter<M>[];
+  OR?: DataFilter<M>[];
+  NOT?: DataFilter<M> | DataFilter<M>[];
+};
+
+// Condition on the value of a field before and after a write
+export interface FieldTransition<V> {
+  from?: FieldCondition<V>;
+  to?: FieldCondition<V>;
+}
+
+// Field transitions that must all hold for an event to match
+export type FieldTransitions<T> = { [K in keyof T]?: FieldTransition<T[K]> };
+
 // Listener configuration
-export interface ListenerConfig<T> {
-  where?: Partial<{ [K in keyof T]: true | T[K][] | string | ((value: T[K]) => boolean) }>;
-  data?: Record<string, any>;
-  listener: ListenerFunction<T>;
+export interface ListenerConfig<T, M extends ModelNames = ModelNames> {
+  phase?: 'after'; // Default: 'after'
+  operations?: EventOperation[]; // Only trigger for these operations (default: all)
+  where?: WhereFilter<T>;
+  data?: DataFilter<M>;
+  result?: WhereFilter<T>; // Filter on the returned record (each row for bulk operations)
+  fields?: Extract<keyof NoInference<T>, string>[]; // Only trigger when one of these fields is written or changed
+  transitions?: FieldTransitions<T>; // Only trigger when these fields change as described
+  listener: ListenerFunction<T, M>;
   allowRemote?: boolean; // If true, also listen to MQTT events from other servers
   remoteOnly?: boolean; // If true, only trigger for MQTT events, not local events
+  priority?: number; // Higher runs first (default: 0), ties keep registration order
+  concurrency?: ListenerConcurrency; // Max simultaneous invocations of this listener (default: unlimited)
+  retry?: RetryPolicy | number; // Retry policy, or the total number of attempts (default: no retry)
+  timeoutMs?: number; // Abort an attempt that runs longer than this (default: no timeout)
+  onDeadLetter?: DeadLetterHandler<T, M>; // Called instead of the global handler once retries are exhausted
+  once?: boolean; // Unsubscribe after the first matching event
 }
 
+// Limits of a batch: delivered once it holds maxSize events or maxWaitMs after its first event
+export interface BatchOptions {
+  maxSize?: number; // Default: 100
+  maxWaitMs?: number; // Default: 1000
+}
+
+// Listener function receiving coalesced events, oldest first
+export type BatchListenerFunction<T, M extends ModelNames = ModelNames> = (
+  events: ListenerEvent<T, M>[],
+  context: { signal: AbortSignal } // Aborted when the attempt exceeds `timeoutMs`
+) => Promise<void> | void;
+
+// Settings of a listener that coalesces events
+interface BatchListenerSettings<T, M extends ModelNames = ModelNames>
+  extends Omit<ListenerConfig<T, M>, 'listener' | 'once'> {
+  batch?: BatchOptions; // Collect events into batches
+  debounceMs?: number; // Deliver once no event arrived for this long
+  debounceKey?: (event: ListenerEvent<T, M>) => unknown; // Debounce each key separately (e.g. the record id)
+  throttleMs?: number; // Deliver at most once per interval; the first event is delivered right away
+  listener: BatchListenerFunction<T, M>;
+}
+
+// Listener configuration coalescing events with one of `batch`, `debounceMs` or `throttleMs`
+export type BatchListenerConfig<T, M extends ModelNames = ModelNames> = BatchListenerSettings<T, M> &
+  ({ batch: BatchOptions } | { debounceMs: number } | { throttleMs: number });
+
+// Filters of a listener config, used by waitForEvent and events
+export type EventFilter<T = any, M extends ModelNames = ModelNames> = Pick<
+  ListenerConfig<T, M>,
+  'operations' | 'where' | 'data' | 'result' | 'fields' | 'transitions' | 'allowRemote' | 'remoteOnly'
+>;
+
+// Options of waitForEvent
+export interface WaitForEventOptions {
+  timeout?: number; // Reject with EventTimeoutError after this many ms (default: wait forever)
+  signal?: AbortSignal; // Reject with the abort reason when aborted
+}
+
+// Options of events
+export interface EventStreamOptions {
+  bufferSize?: number; // Events kept while the consumer is busy; the oldest is dropped beyond it (default: 100)
+  signal?: AbortSignal; // End the iteration when aborted
+}
+
+// Before listener configuration (local only, runs on every intercepted write)
+export interface BeforeListenerConfig<T, M extends ModelNames = ModelNames> {
+  phase: 'before';
+  operations?: EmitOperation[];
+  where?: ListenerConfig<T>['where'];
+  data?: DataFilter<M>;
+  listener: BeforeListenerFunction<M>; // Throw EmitterVetoError to abort the write
+}
+
+/**
+ * Type registrations merged in by the application.
+ * For a client generated to a custom `output` path, register its type
+ * (`prisma-emitter generate` writes this declaration when the schema sets `output`):
+ *
+ *   declare module 'prisma-extension-emitter' {
+ *     interface EmitterTypes { client: import('../generated/prisma').PrismaClient }
+ *   }
+ */
+export interface EmitterTypes {}
+
+// Client the model typings are derived from (`@prisma/client` unless registered)
+type EmitterClient = EmitterTypes extends { client: infer C } ? C : PrismaClient;
+
 // Derive model names from PrismaClient delegates
 export type ModelNames = {
-  [K in Extract<keyof PrismaClient, string>]: 
-    PrismaClient[K] extends { findUnique: (...args: any[]) => any } ? K : never
-}[Extract<keyof PrismaClient, string>];
+  [K in Extract<keyof EmitterClient, string>]: 
+    EmitterClient[K] extends { findUnique: (...args: any[]) => any } ? K : never
+}[Extract<keyof EmitterClient, string>];
+
+// Delegate of a model on the client (prisma.user for 'user')
+type ModelDelegate<M> = M extends keyof EmitterClient ? EmitterClient[M] : never;
+
+// Record type of a model, as returned by findUniqueOrThrow (any without a generated client)
+export type ModelRecord<M extends ModelNames> = M extends any
+  ? ModelDelegate<M> extends { findUniqueOrThrow: (...args: any[]) => infer R } ? Awaited<R> : any
+  : never;
+
+// Args of an operation on a model (prisma.user.update args for 'user' and 'update')
+export type ModelArgs<M extends ModelNames, O extends string> = M extends any
+  ? ModelDelegate<M> extends { [K in O]: (args: infer A) => any } ? NonNullable<A> : any
+  : never;
+
+// `data` of the create and update args of a model
+type ModelWriteData<M extends ModelNames> = ModelArgs<M, 'create'>['data'] | ModelArgs<M, 'update'>['data'];
+
+// Keys of every member of a union
+type UnionKeys<U> = U extends any ? keyof U : never;
+
+// Block inference from a position, so a list of field names does not become the record type
+// (the built-in NoInfer needs TypeScript 5.4)
+type NoInference<T> = [T][T extends any ? 0 : never];
+
+// Record type of a listener: the explicit type argument, or the record of its model
+export type ListenerRecord<T, M extends ModelNames> = unknown extends T ? ModelRecord<M> : T;
+
+// Key a listener is registered under: a model name or '*' for every model
+export type ListenerTarget = ModelNames | '*';
 
 // MQTT configuration types
 export interface MqttConfig {
@@ -35,27 +317,137 @@ export interface MqttConfig {
   topicPrefix?: string; // Default: 'prisma/events'
 }
 
+// Redis configuration: Pub/Sub channels, or a stream read through a consumer group
+export interface RedisConfig {
+  enabled: boolean;
+  url?: string; // Default: 'redis://localhost:6379'
+  options?: Record<string, unknown>; // ioredis connection options
+  client?: any; // Existing ioredis client to publish with (duplicated to subscribe); left open on disconnect
+  topicPrefix?: string; // Default: 'prisma/events'
+  mode?: 'pubsub' | 'streams'; // Default: 'pubsub'
+  streams?: RedisStreamOptions;
+}
+
+// Stream settings of the Redis 'streams' mode
+export interface RedisStreamOptions {
+  key?: string; // Stream holding every event. Default: the topic prefix
+  // Consumer group: each group receives every event, split between its consumers.
+  // Give each server its own group to receive all events, as with Pub/Sub.
+  group: string;
+  consumer?: string; // Name within the group, stable across restarts to resume its pending events. Default: random
+  maxLen?: number; // Approximate number of events kept in the stream. Default: 10000
+  blockMs?: number; // How long a read waits for new events. Default: 5000
+  batchSize?: number; // Events per read. Default: 100
+}
+
+// PostgreSQL configuration: NOTIFY on one channel, LISTEN on a dedicated connection
+export interface PostgresConfig {
+  enabled: boolean;
+  connectionString?: string; // Default: DATABASE_URL
+  options?: Record<string, unknown>; // pg pool and client options
+  topicPrefix?: string; // Default: 'prisma/events'
+  channel?: string; // NOTIFY channel. Default: 'prisma_emitter'
+  spillTable?: string; // Holds payloads over the NOTIFY size limit. Default: 'prisma_emitter_spill'
+  createSpillTable?: boolean; // Create the spill table on first use, outside Prisma migrations. Default: false
+  spillTtlMs?: number; // How long spilled payloads are kept. Default: 60000
+}
+
+// Connection status reported by a transport
+export type TransportStatus = 'connected' | 'disconnected' | 'error';
+
+// Remote delivery of events between processes. Topics are `/`-separated levels, and
+// subscriptions may use the MQTT wildcards `+` (one level) and `#` (all remaining levels).
+export interface EventTransport {
+  readonly connected: boolean; // Whether published events can currently be delivered
+  publish(topic: string, payload: EventPayload): Promise<void>;
+  subscribe(topic: string): Promise<void>;
+  unsubscribe(topic: string): Promise<void>;
+  close(): Promise<void>; // Release connections; the transport is not used afterwards
+  // Emits 'message' once per received event, and 'status' when the connection changes
+  on(event: 'message', listener: (topic: string, payload: EventPayload) => void): unknown;
+  on(event: 'status', listener: (status: TransportStatus, error?: unknown) => void): unknown;
+  off(event: 'message' | 'status', listener: (...args: any[]) => void): unknown;
+}
+
+// What happens to an event published while the publish buffer is full
+export type BufferOverflow = 'drop-oldest' | 'drop-newest' | 'block';
+
+// Events published while the transport is disconnected are held, then published in order once it reconnects
+export interface PublishBufferOptions {
+  maxSize?: number; // Default: 1000
+  overflow?: BufferOverflow; // Default: 'drop-oldest'; 'block' holds the write (or its background publish) until there is room
+  filePath?: string; // Keep held events in this file (JSON lines), replayed after a restart
+}
+
+// Models and fields of the Prisma schema, as in `Prisma.dmmf.datamodel`
+export interface DatamodelInfo {
+  models: ReadonlyArray<{
+    name: string;
+    fields: ReadonlyArray<{ name: string; kind: string; type: string; isList: boolean }>;
+  }>;
+}
+
+// How many listeners run at once: one at a time, all together or a fixed limit
+export type ListenerConcurrency = 'sequential' | 'parallel' | number;
+
+// How bulk operations (createManyAndReturn, updateManyAndReturn) are emitted
+export type BulkEmitMode = 'batch' | 'perRow';
+
 // Log levels
 export type LogLevel = 'none' | 'error' | 'warn' | 'info' | 'debug';
 
 // Extension options
 export type ExtensionOptions = {
+  // Default emit for writes without a per-call `emit` arg (which always overrides it)
   emit?: {
     emitOnUpsert?: boolean;
     emitOnCreate?: boolean;
     emitOnUpdate?: boolean;
     emitOnUpdateMany?: boolean;
-  } | boolean;
+    emitOnDelete?: boolean;
+    emitOnDeleteMany?: boolean;
+    emitOnCreateMany?: boolean;
+    emitOnCreateManyAndReturn?: boolean;
+    emitOnUpdateManyAndReturn?: boolean;
+  } | ModelEmitDefaults | boolean;
+  // Decide per write whether it emits; writes for which it returns false emit nothing
+  shouldEmit?: (model: ModelNames, operation: EmitOperation, args: any) => boolean | Promise<boolean>;
+  bulkEmit?: BulkEmitMode; // Default: 'batch'
+  delivery?: DeliveryMode; // Default: 'background'
+  // Reject writes delivered with 'await' or 'awaitLocal' with a ListenerError when listeners fail. Default: false
+  throwListenerErrors?: boolean;
+  captureBefore?: boolean | Partial<Record<ModelNames, boolean>>; // Default: false
+  emitNested?: boolean; // Emit derived events for nested writes on related models. Default: false
+  datamodel?: DatamodelInfo; // Relations used by `emitNested`, e.g. `Prisma.dmmf.datamodel` of a client generated to a custom output
+  concurrency?: ListenerConcurrency; // How the listeners matched by one event run. Default: 'sequential'
+  onDeadLetter?: DeadLetterHandler; // Called when a listener without its own handler fails every attempt
   mqtt?: MqttConfig;
+  redis?: RedisConfig; // Used for remote events when `mqtt` is not enabled
+  postgres?: PostgresConfig; // Used for remote events when neither `mqtt` nor `redis` is enabled
+  transport?: EventTransport; // Used for remote events instead of `mqtt`, `redis` or `postgres`
+  topicPrefix?: string; // Prefix of event topics. Default: the `topicPrefix` of the enabled config, or 'prisma/events'
+  publishBuffer?: PublishBufferOptions | false; // Default: 1000 events in memory
   logLevel?: LogLevel; // Default: 'none'
+  instanceId?: string; // Identifies this process in event payloads. Default: random UUID
 };
 
-// MQTT event payload
-export interface MqttEventPayload {
+// Event payload sent through a transport
+export interface EventPayload {
   model: ModelNames;
   operation: string;
   args: any;
   result: any;
   timestamp: string;
   eventId?: string; // Optional event ID for deduplication
+  instanceId?: string; // Process that published the event
+  parentEventId?: string; // Present on events derived from nested writes
+  before?: any; // Present when captureBefore is enabled
+  after?: any;
+  changes?: FieldChanges;
+  context?: EventContext; // Present when the write ran inside withEmitterContext
+  meta?: Record<string, unknown>; // Present when the write passed `emit: { meta }`
+  tags?: string[]; // Present when the write passed `emit: { tags }`
 }
+
+// Name of the event payload from when MQTT was the only transport
+export type MqttEventPayload = EventPayload;
@@ -3,4 +3,38 @@ export function camelizeIt(str : string) {
     return str.replace(/(?:^\w|[A-Z]|\b\w)/g, function(word, index) {
       return index === 0 ? word.toLowerCase() : word.toUpperCase();
     }).replace(/\s+/g, '');
-  }
\ No newline at end of file
+  }
+/**
+ * Compare two field values read from Prisma (handles Date, Decimal, Json, Bytes).
+ * Dates also match their ISO string, as they arrive in remote events.
+ */
+export function isSameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return false;
+  if (a instanceof Date || b instanceof Date) return toTime(a) === toTime(b);
+  if (typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function toTime(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+/**
+ * Check if a topic matches a subscription pattern with `+` and `#` wildcards
+ */
+export function topicMatches(pattern: string, topic: string): boolean {
+  const patternLevels = pattern.split('/');
+  const topicLevels = topic.split('/');
+  
+  for (let i = 0; i < patternLevels.length; i++) {
+    if (patternLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (patternLevels[i] !== '+' && patternLevels[i] !== topicLevels[i]) return false;
+  }
+  
+  return patternLevels.length === topicLevels.length;
+}
@@ -0,0 +1,74 @@
+// Type-level checks, compiled with `npm run test:types` and never run
+import { prismaEventListener, waitForEvent, createEmitter } from '../src';
+
+interface User {
+  id: number;
+  email: string;
+  status: 'ACTIVE' | 'BANNED';
+  role: string;
+}
+
+// Model typings of a generated client with a `user` model
+interface TestClient {
+  user: {
+    findUnique(args: { where: { id: number } }): Promise<User | null>;
+    findUniqueOrThrow(args: { where: { id: number } }): Promise<User>;
+    create(args: { data: Partial<User> }): Promise<User>;
+    update(args: { where: { id: number }; data: Partial<User> }): Promise<User>;
+  };
+}
+
+declare module '../src/types' {
+  interface EmitterTypes {
+    client: TestClient;
+  }
+}
+
+// `fields` does not narrow the record to the listed fields
+prismaEventListener('user', {
+  fields: ['email'],
+  listener: ({ result }) => {
+    const id: number = result.id;
+    const email: string = result.email;
+  },
+});
+
+// `fields` mixed with filters on other columns
+prismaEventListener('user', {
+  fields: ['email'],
+  where: { id: 1 },
+  result: { role: 'admin' },
+  transitions: { status: { from: 'ACTIVE', to: 'BANNED' } },
+  listener: ({ result }) => {
+    const status: User['status'] = result.status;
+  },
+});
+
+// Batched listeners
+prismaEventListener('user', {
+  fields: ['status'],
+  batch: { maxSize: 10 },
+  listener: (events) => {
+    const ids: number[] = events.map((event) => event.result.id);
+  },
+});
+
+// Unknown fields are rejected
+prismaEventListener('user', {
+  // @ts-expect-error
+  fields: ['missing'],
+  listener: () => {},
+});
+
+async function consumers() {
+  const event = await waitForEvent('user', { fields: ['email'], result: { role: 'admin' } });
+  const id: number = event.result.id;
+
+  const emitter = createEmitter();
+  const other = await emitter.waitForEvent('user', { fields: ['email'], transitions: { status: { to: 'BANNED' } } });
+  const email: string = other.result.email;
+
+  for await (const { result } of emitter.events('user', { fields: ['role'] })) {
+    const role: string = result.role;
+  }
+}